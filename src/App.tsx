@@ -150,7 +150,7 @@ function App() {
             
             <div className="form-actions">
               <button type="submit">Login</button>
-              <button type="button" onClick={reset}>Reset</button>
+              <button type="button" onClick={() => reset()}>Reset</button>
             </div>
           </form>
           
@@ -89,7 +89,7 @@ const validateAdvancedForm = (values: AdvancedFormData) => {
 export function AdvancedForm() {
   const [formData, setFormData] = useState<AdvancedFormData | null>(null);
   
-  const { values, errors, handleSubmit, register, reset } = useForm<AdvancedFormData>({
+  const { errors, handleSubmit, register, reset, watch } = useForm<AdvancedFormData>({
     defaultValues: {
         "fullName": "hfghfghfgh",
         "email": "projektas@gmail.com",
@@ -186,7 +186,7 @@ export function AdvancedForm() {
           
           <div className="form-group">
             <label htmlFor="satisfaction">
-              Satisfaction Level: {values.satisfaction}
+              Satisfaction Level: {watch('satisfaction')}
             </label>
             <input 
               id="satisfaction" 
@@ -360,7 +360,7 @@ export function AdvancedForm() {
               type="color" 
               {...register('favoriteColor')} 
             />
-            <span className="color-value">{values.favoriteColor}</span>
+            <span className="color-value">{watch('favoriteColor')}</span>
           </div>
           
           <div className="form-group file-input">
@@ -393,7 +393,7 @@ export function AdvancedForm() {
         <div className="form-actions">
           <button type="submit">Submit Form</button>
           <button type='reset'>Button Type Reset</button>
-          <button type="button" onClick={reset}>Reset() Form</button>
+          <button type="button" onClick={() => reset()}>Reset() Form</button>
         </div>
       </form>
       
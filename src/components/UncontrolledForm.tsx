@@ -101,7 +101,7 @@ export function UncontrolledForm() {
         
         <div className="form-actions">
           <button type="submit">Submit</button>
-          <button type="button" onClick={reset}>Reset</button>
+          <button type="button" onClick={() => reset()}>Reset</button>
         </div>
       </form>
       
@@ -1,3 +1,60 @@
 // Re-export the hook from the lib directory
 export { useForm } from './lib/useForm';
-export type { FormValues, UseFormOptions, UseFormReturn } from './lib/useForm';
+export type {
+  ErrorOption,
+  FieldElement,
+  FormControl,
+  FormErrors,
+  FormState,
+  FormStateListener,
+  FormValues,
+  HistoryOptions,
+  NativeValidationOptions,
+  NativeValidityKey,
+  ResetOptions,
+  ServerErrors,
+  SetFocusOptions,
+  UnregisterOptions,
+  UseFormOptions,
+  UseFormReturn,
+  WatchFunction,
+  WatchListener,
+} from './lib/useForm';
+export type { PersistOptions, PersistStorage } from './lib/persist';
+export { createFormControl } from './lib/createFormControl';
+export type { FieldInput, FormStore, FormStoreOptions, ValidationMode } from './lib/createFormControl';
+export { useWatch } from './lib/useWatch';
+export type { UseWatchOptions } from './lib/useWatch';
+export { useFormState } from './lib/useFormState';
+export type { UseFormStateOptions } from './lib/useFormState';
+export { Form, FormProvider } from './lib/FormProvider';
+export type { FormProps, FormProviderProps } from './lib/FormProvider';
+export { useFormContext } from './lib/useFormContext';
+export type { FormContextValue } from './lib/useFormContext';
+export { useFormWizard } from './lib/useFormWizard';
+export type {
+  UseFormWizardOptions,
+  UseFormWizardReturn,
+  WizardStep,
+  WizardStepState,
+} from './lib/useFormWizard';
+export { Controller } from './lib/Controller';
+export { ErrorSummary } from './lib/ErrorSummary';
+export type { ErrorSummaryProps } from './lib/ErrorSummary';
+export type { ControllerProps } from './lib/Controller';
+export { useController } from './lib/useController';
+export type { ControllerFieldState, UseControllerOptions, UseControllerReturn } from './lib/useController';
+export { useFieldArray } from './lib/useFieldArray';
+export type { FieldArrayWithId, UseFieldArrayOptions, UseFieldArrayReturn } from './lib/useFieldArray';
+export { standardSchemaResolver, toFieldErrors, yupResolver, zodResolver } from './lib/resolvers';
+export type { Resolver, ResolverResult, StandardSchemaV1, ValidationContext } from './lib/resolvers';
+export type { RegisterOptions, Validate, ValidateResult, ValidationRule } from './lib/rules';
+export type {
+  FieldArrayItem,
+  FieldArrayPath,
+  FieldDirty,
+  FieldErrors,
+  FieldPath,
+  FieldPathValue,
+  FieldTouched,
+} from './lib/path';
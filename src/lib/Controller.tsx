@@ -0,0 +1,17 @@
+import type React from 'react';
+import type { FieldPath } from './path';
+import { useController, type UseControllerOptions, type UseControllerReturn } from './useController';
+
+/**
+ * ControllerProps interface is used to define the props of the Controller component.
+ */
+export interface ControllerProps<T, K extends FieldPath<T>> extends UseControllerOptions<T, K> {
+  render: (props: UseControllerReturn<T, K>) => React.ReactElement;
+}
+
+/**
+ * Controller component is used to render a non-native or third-party input connected to a form.
+ */
+export function Controller<T, K extends FieldPath<T>>({ render, ...options }: ControllerProps<T, K>) {
+  return render(useController(options));
+}
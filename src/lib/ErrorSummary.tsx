@@ -0,0 +1,75 @@
+import React from 'react';
+import { isPlainObject, type FieldPath } from './path';
+import type { FormControl } from './useForm';
+import { FormContext } from './useFormContext';
+import { useFormState } from './useFormState';
+
+/**
+ * ErrorSummaryProps interface is used to define the props of the ErrorSummary component.
+ * `control` can be omitted inside a FormProvider.
+ */
+export interface ErrorSummaryProps<T> {
+  control?: FormControl<T>;
+  title?: React.ReactNode;
+  className?: string;
+}
+
+/**
+ * collectErrorMessages function flattens a nested errors object into field paths and their messages.
+ */
+function collectErrorMessages(errors: unknown, prefix = ''): Array<[string, string]> {
+  if (typeof errors === 'string') {
+    return prefix ? [[prefix, errors]] : [];
+  }
+
+  if (!Array.isArray(errors) && !isPlainObject(errors)) {
+    return [];
+  }
+
+  return Object.entries(errors).flatMap(([key, value]) =>
+    collectErrorMessages(value, prefix ? `${prefix}.${key}` : key),
+  );
+}
+
+/**
+ * ErrorSummary component is used to list the errors of a form in a polite live region.
+ * Each message is a button that focuses its field, as fields have no id a link could point to.
+ */
+export function ErrorSummary<T>({
+  control: controlProp,
+  title = 'Please fix the following errors:',
+  className,
+}: ErrorSummaryProps<T>) {
+  const form = React.useContext(FormContext);
+  const control = controlProp ?? (form?.control as FormControl<T> | undefined);
+
+  if (!control) {
+    throw new Error('ErrorSummary must be given a control or be used inside a FormProvider');
+  }
+
+  const { errors } = useFormState({ control });
+  const { root, ...fieldErrors } = errors;
+  const messages = collectErrorMessages(fieldErrors);
+  const hasErrors = root !== undefined || messages.length > 0;
+
+  // The live region is always rendered, so screen readers announce errors as soon as they appear
+  return (
+    <div className={className} aria-live="polite">
+      {hasErrors && (
+        <>
+          <p>{title}</p>
+          {root && <p>{root}</p>}
+          <ul>
+            {messages.map(([name, message]) => (
+              <li key={name}>
+                <button type="button" onClick={() => control.setFocus(name as FieldPath<T>)}>
+                  {message}
+                </button>
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+}
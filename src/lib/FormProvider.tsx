@@ -0,0 +1,105 @@
+import React from 'react';
+import type { FormErrors, UseFormReturn } from './useForm';
+import { FormContext, useFormContext, type FormContextValue } from './useFormContext';
+
+/**
+ * FormProviderProps interface is used to define the props of FormProvider: a form returned by useForm and children.
+ */
+export interface FormProviderProps<T, TSubmit = T> {
+  form: UseFormReturn<T, TSubmit>;
+  children?: React.ReactNode;
+}
+
+/**
+ * FormProvider component is used to share a form with deeply nested components through useFormContext.
+ * Only the methods are shared, so the component owning the form doesn't subscribe to state it never reads.
+ */
+export function FormProvider<T, TSubmit = T>({ form, children }: FormProviderProps<T, TSubmit>) {
+  const {
+    control,
+    handleSubmit,
+    register,
+    getErrorProps,
+    setValue,
+    trigger,
+    watch,
+    subscribe,
+    setError,
+    clearErrors,
+    setServerErrors,
+    unregister,
+    setFocus,
+    reset,
+    getDirtyValues,
+    undo,
+    redo,
+    clearHistory,
+  } = form;
+
+  const value = React.useMemo<FormContextValue<T, TSubmit>>(
+    () => ({
+      control,
+      handleSubmit,
+      register,
+      getErrorProps,
+      setValue,
+      trigger,
+      watch,
+      subscribe,
+      setError,
+      clearErrors,
+      setServerErrors,
+      unregister,
+      setFocus,
+      reset,
+      getDirtyValues,
+      undo,
+      redo,
+      clearHistory,
+    }),
+    [
+      clearErrors,
+      clearHistory,
+      control,
+      getDirtyValues,
+      getErrorProps,
+      handleSubmit,
+      redo,
+      register,
+      reset,
+      setError,
+      setFocus,
+      setServerErrors,
+      setValue,
+      subscribe,
+      trigger,
+      undo,
+      unregister,
+      watch,
+    ],
+  );
+
+  return <FormContext.Provider value={value as FormContextValue<unknown, unknown>}>{children}</FormContext.Provider>;
+}
+
+/**
+ * FormProps interface is used to define the props of the Form component.
+ */
+export interface FormProps<T, TSubmit = T>
+  extends Omit<React.FormHTMLAttributes<HTMLFormElement>, 'onSubmit' | 'onInvalid'> {
+  onSubmit: (values: TSubmit) => void | Promise<void>;
+  onInvalid?: (errors: FormErrors<T>) => void | Promise<void>;
+}
+
+/**
+ * Form component is used to render a form element wired to the form provided by the closest FormProvider.
+ */
+export function Form<T, TSubmit = T>({ onSubmit, onInvalid, children, ...props }: FormProps<T, TSubmit>) {
+  const { control, handleSubmit } = useFormContext<T, TSubmit>();
+
+  return (
+    <form {...props} ref={control.setFormElement} onSubmit={handleSubmit(onSubmit, onInvalid)}>
+      {children}
+    </form>
+  );
+}
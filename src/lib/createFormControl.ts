@@ -0,0 +1,938 @@
+import {
+  getDirtyFields,
+  getPath,
+  isDeepEqual,
+  isRelatedPath,
+  mergeValues,
+  pickDirtyValues,
+  prunePath,
+  setPath,
+  unsetPath,
+  type FieldArrayPath,
+  type FieldDirty,
+  type FieldErrors,
+  type FieldPath,
+  type FieldPathValue,
+  type FieldTouched,
+} from './path';
+import type { Resolver, ValidationContext } from './resolvers';
+import { validateRules, type RegisterOptions } from './rules';
+
+/**
+ * ValidationMode type is used to define when fields are validated.
+ */
+export type ValidationMode = 'onChange' | 'onBlur' | 'onSubmit';
+
+/**
+ * FormErrors type is used to define the errors of a form, including the form-level `root` error.
+ */
+export type FormErrors<T> = FieldErrors<T> & { root?: string };
+
+/**
+ * ErrorOption interface is used to define an error set manually with setError.
+ */
+export interface ErrorOption {
+  type?: string;
+  message: string;
+}
+
+/**
+ * ServerErrors type is used to define an error payload returned by an API, keyed by field path.
+ * Messages under the `root` key or an empty key become the form-level error.
+ */
+export type ServerErrors = Record<string, string | string[] | undefined>;
+
+/**
+ * ResetOptions interface is used to define which parts of the form state survive a reset.
+ */
+export interface ResetOptions {
+  keepDirty?: boolean;
+  keepErrors?: boolean;
+  keepTouched?: boolean;
+  keepDefaultValues?: boolean;
+}
+
+/**
+ * UnregisterOptions interface is used to define which parts of a field's state survive unregister.
+ */
+export interface UnregisterOptions {
+  keepValue?: boolean;
+  keepError?: boolean;
+  keepTouched?: boolean;
+  keepDefaultValue?: boolean;
+}
+
+/**
+ * FieldArrayUpdate type is used to define an operation that rewrites the rows of a field array.
+ * The same operation is applied to values, errors and touched state so they stay aligned with their rows.
+ */
+export type FieldArrayUpdate = <U>(rows: U[], create: (value: unknown) => U) => U[];
+
+/**
+ * FieldInput interface is used to define what the store reads from an input element to derive a field value.
+ * `selectedValues` holds the values of the selected options of a multiple select.
+ */
+export interface FieldInput {
+  type: string;
+  value: string;
+  checked?: boolean;
+  files?: FileList | null;
+  selectedValues?: string[];
+  valueAsDate?: Date | null;
+}
+
+/**
+ * WatchListener type is used to define a callback notified after form values change.
+ * `name` is the changed field, or undefined when the whole form changed, e.g. after a reset.
+ */
+export type WatchListener<T> = (values: T, info: { name?: FieldPath<T> }) => void;
+
+/**
+ * FormState interface is used to define the state of a form that components can subscribe to.
+ */
+export interface FormState<T> {
+  errors: FormErrors<T>;
+  touched: FieldTouched<T>;
+  dirtyFields: FieldDirty<T>;
+  isDirty: boolean;
+  isLoading: boolean;
+  isValid: boolean;
+  isValidating: boolean;
+  isSubmitting: boolean;
+  isSubmitted: boolean;
+  isSubmitSuccessful: boolean;
+  submitCount: number;
+}
+
+/**
+ * FormStateListener type is used to define a callback notified after the form state changes.
+ * Unchanged keys keep their previous objects, so they can be compared by reference.
+ */
+export type FormStateListener<T> = (state: FormState<T>, prevState: FormState<T>) => void;
+
+/**
+ * FormStoreOptions interface is used to define the options for createFormControl.
+ * `getNativeErrors` and `onErrors` connect the store to its environment, like the browser's constraint validation.
+ */
+export interface FormStoreOptions<T, TSubmit = T> {
+  defaultValues?: Partial<T>;
+  values?: Partial<T>;
+  isLoading?: boolean;
+  validator?: (values: T, context: ValidationContext) => FieldErrors<T> | Promise<FieldErrors<T>>;
+  resolver?: Resolver<T, TSubmit>;
+  validateOn?: ValidationMode;
+  reValidateMode?: ValidationMode;
+  validationDebounce?: number | Partial<Record<FieldPath<T>, number>>;
+  getNativeErrors?: (names?: FieldPath<T>[]) => FieldErrors<T>;
+  onErrors?: (errors: FormErrors<T>) => void;
+}
+
+/**
+ * FormStore interface is used to define the state and behaviour of a form, independent of any UI framework.
+ */
+export interface FormStore<T, TSubmit = T> {
+  getValues: () => T;
+  getDefaultValues: () => Partial<T>;
+  getDirtyValues: () => Partial<T>;
+  setValue: <K extends FieldPath<T>>(name: K, value: FieldPathValue<T, K>) => void;
+  setValueFromInput: (name: FieldPath<T>, input: FieldInput) => void;
+  setValues: (values: Partial<T>) => void;
+  updateFieldArray: (name: FieldArrayPath<T>, update: FieldArrayUpdate) => void;
+  touch: (name: FieldPath<T>) => void;
+  getFieldRules: (name: FieldPath<T>) => RegisterOptions<unknown, T> | undefined;
+  setFieldRules: (name: FieldPath<T>, rules: RegisterOptions<unknown, T>) => void;
+  getValidationMode: () => ValidationMode;
+  validate: (names?: FieldPath<T>[]) => Promise<{ isValid: boolean; values: TSubmit }>;
+  trigger: (name?: FieldPath<T> | FieldPath<T>[]) => Promise<boolean>;
+  submit: (
+    onSubmit: (values: TSubmit) => void | Promise<void>,
+    onInvalid?: (errors: FormErrors<T>) => void | Promise<void>,
+  ) => Promise<void>;
+  setError: (name: FieldPath<T> | 'root', error: ErrorOption) => void;
+  clearErrors: (names?: FieldPath<T> | 'root' | Array<FieldPath<T> | 'root'>) => void;
+  setServerErrors: (errors: ServerErrors) => void;
+  unregister: (name: FieldPath<T> | FieldPath<T>[], options?: UnregisterOptions) => void;
+  reset: (values?: Partial<T>, options?: ResetOptions) => void;
+  subscribe: (listener: WatchListener<T>) => () => void;
+  getFormState: () => FormState<T>;
+  subscribeFormState: (listener: FormStateListener<T>) => () => void;
+  setLoading: (isLoading: boolean) => void;
+  setOptions: (options: Partial<FormStoreOptions<T, TSubmit>>) => void;
+  destroy: () => void;
+}
+
+export const formStateKeys: Array<keyof FormState<unknown>> = [
+  'errors',
+  'touched',
+  'dirtyFields',
+  'isDirty',
+  'isLoading',
+  'isValid',
+  'isValidating',
+  'isSubmitting',
+  'isSubmitted',
+  'isSubmitSuccessful',
+  'submitCount',
+];
+
+/**
+ * hasFieldErrors function checks whether a (possibly nested) errors object contains any message.
+ */
+function hasFieldErrors(errors: unknown): boolean {
+  if (typeof errors === 'string') {
+    return true;
+  }
+
+  if (errors !== null && typeof errors === 'object') {
+    return Object.values(errors).some(hasFieldErrors);
+  }
+
+  return false;
+}
+
+/**
+ * getErrorPaths function lists the paths of every message in a (possibly nested) errors object.
+ */
+function getErrorPaths(errors: unknown, prefix = ''): string[] {
+  if (typeof errors === 'string') {
+    return [prefix];
+  }
+
+  if (errors !== null && typeof errors === 'object') {
+    return Object.entries(errors).flatMap(([key, value]) => getErrorPaths(value, prefix ? `${prefix}.${key}` : key));
+  }
+
+  return [];
+}
+
+/**
+ * hasFieldFlags function checks whether a (possibly nested) flags object contains any `true` flag.
+ */
+function hasFieldFlags(flags: unknown): boolean {
+  if (flags === true) {
+    return true;
+  }
+
+  if (flags !== null && typeof flags === 'object') {
+    return Object.values(flags).some(hasFieldFlags);
+  }
+
+  return false;
+}
+
+/**
+ * mergeFieldErrors function deeply merges two errors objects, letting messages from the second one win.
+ */
+function mergeFieldErrors<E>(base: E, override: E): E {
+  if (override === undefined) {
+    return base;
+  }
+
+  if (base === null || typeof base !== 'object' || override === null || typeof override !== 'object') {
+    return override;
+  }
+
+  const result = (Array.isArray(base) ? [...base] : { ...base }) as Record<string, unknown>;
+
+  for (const [key, value] of Object.entries(override)) {
+    result[key] = mergeFieldErrors(result[key], value);
+  }
+
+  return result as E;
+}
+
+/**
+ * pickFieldErrors function updates the errors of the given fields only, leaving other fields as they were.
+ * A whole-form validator reports every field, but fields the user hasn't reached shouldn't show errors yet.
+ */
+function pickFieldErrors<T>(
+  prevErrors: FieldErrors<T>,
+  nextErrors: FieldErrors<T>,
+  names: FieldPath<T>[],
+  hasFailed: boolean,
+): FieldErrors<T> {
+  let result = prevErrors;
+
+  for (const name of names) {
+    const message = getPath(nextErrors, name);
+    result = message === undefined ? prunePath(result, name) : setPath(result, name, message);
+  }
+
+  // A form-level error already shown is kept up to date, a new one only shows up on a full validation
+  if (hasFailed || getPath(prevErrors, 'root') !== undefined) {
+    const rootMessage = getPath(nextErrors, 'root');
+    result = rootMessage === undefined ? prunePath(result, 'root') : setPath(result, 'root', rootMessage);
+  }
+
+  return result;
+}
+
+/**
+ * parseInputValue function converts the raw value of a text-like input into the type declared for the field.
+ */
+function parseInputValue<T>(input: FieldInput, rules: RegisterOptions<unknown, T> = {}): unknown {
+  const { type, value } = input;
+
+  if (rules.setValueAs) {
+    return rules.setValueAs(value);
+  }
+
+  // Selects and textareas keep their text, as they have no numeric or date type of their own
+  if (type === 'select-one' || type === 'textarea') {
+    return value;
+  }
+
+  if (rules.valueAsNumber ?? (type === 'number' || type === 'range')) {
+    return value === '' ? null : Number(value);
+  }
+
+  if (rules.valueAsDate) {
+    return value === '' ? null : (input.valueAsDate ?? new Date(value));
+  }
+
+  return value;
+}
+
+/**
+ * toErrorMessage function turns a thrown value into the message shown as an error.
+ */
+function toErrorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * createFormControl function creates the store behind a form: its values, validation, errors and form state.
+ * It has no dependency on React or the DOM, so it can drive other UIs and be tested in plain Node.
+ */
+export function createFormControl<T, TSubmit = T>(
+  initialOptions: FormStoreOptions<T, TSubmit> = {},
+): FormStore<T, TSubmit> {
+  let options = initialOptions;
+  let defaultValues = (initialOptions.defaultValues ?? {}) as Partial<T>;
+  let formValues = initialOptions.values ?? defaultValues;
+  const modifiedFields = new Set<FieldPath<T>>();
+  const fieldRules = new Map<FieldPath<T>, RegisterOptions<unknown, T>>();
+
+  let validatorErrors: FieldErrors<T> = {};
+  let ruleErrors: FieldErrors<T> = {};
+  let nativeErrors: FieldErrors<T> = {};
+  let manualErrors: FieldErrors<T> = {};
+  let rootError: string | undefined;
+
+  let validationRun = 0;
+  const fieldRuns = new Map<FieldPath<T>, number>();
+  const pendingFields = new Set<FieldPath<T>>();
+  let pendingValidations = 0;
+  let abortController: AbortController | null = null;
+  let debounceTimer: ReturnType<typeof setTimeout> | undefined;
+
+  const subscribers = new Set<WatchListener<T>>();
+  const formStateSubscribers = new Set<FormStateListener<T>>();
+
+  // Emptied fields keep their empty value instead of falling back to the default one
+  const computeValues = (): T => {
+    let result = mergeValues(defaultValues, formValues);
+
+    for (const path of modifiedFields) {
+      result = setPath(result, path, getPath(formValues, path));
+    }
+
+    return result as T;
+  };
+
+  // Cached, so that every read between two changes returns the same object
+  let values = computeValues();
+  const initialDirtyFields = getDirtyFields(values, defaultValues);
+
+  let formState: FormState<T> = {
+    errors: {},
+    touched: {},
+    dirtyFields: (initialDirtyFields ?? {}) as FieldDirty<T>,
+    isDirty: hasFieldFlags(initialDirtyFields),
+    isLoading: initialOptions.isLoading ?? false,
+    isValid: true,
+    isValidating: false,
+    isSubmitting: false,
+    isSubmitted: false,
+    isSubmitSuccessful: false,
+    submitCount: 0,
+  };
+
+  const getValues = () => values;
+
+  const getDefaultValues = () => defaultValues;
+
+  const updateValues = (nextFormValues: Partial<T>) => {
+    formValues = nextFormValues;
+    values = computeValues();
+  };
+
+  const subscribe = (listener: WatchListener<T>) => {
+    subscribers.add(listener);
+
+    return () => {
+      subscribers.delete(listener);
+    };
+  };
+
+  const notifySubscribers = (name?: FieldPath<T>) => {
+    subscribers.forEach((listener) => listener(values, { name }));
+  };
+
+  const getFormState = () => formState;
+
+  const subscribeFormState = (listener: FormStateListener<T>) => {
+    formStateSubscribers.add(listener);
+
+    return () => {
+      formStateSubscribers.delete(listener);
+    };
+  };
+
+  const updateFormState = (
+    update: Partial<FormState<T>> | ((prevState: FormState<T>) => Partial<FormState<T>>),
+  ) => {
+    const prevState = formState;
+    const nextState = { ...prevState, ...(typeof update === 'function' ? update(prevState) : update) };
+
+    nextState.isDirty = hasFieldFlags(nextState.dirtyFields);
+    // A root error from onSubmit or setError doesn't make the values invalid, one from validation does
+    nextState.isValid =
+      !hasFieldErrors({ ...nextState.errors, root: undefined }) &&
+      (validatorErrors as FormErrors<T>).root === undefined;
+
+    // Keep the previous objects while nothing changed, so subscribers can skip re-rendering
+    for (const key of formStateKeys) {
+      if (isDeepEqual(prevState[key], nextState[key])) {
+        (nextState as Record<string, unknown>)[key] = prevState[key];
+      }
+    }
+
+    if (formStateKeys.every((key) => prevState[key] === nextState[key])) {
+      return;
+    }
+
+    formState = nextState;
+    formStateSubscribers.forEach((listener) => listener(nextState, prevState));
+  };
+
+  const updateDirtyFields = () => {
+    updateFormState({ dirtyFields: (getDirtyFields(values, defaultValues) ?? {}) as FieldDirty<T> });
+  };
+
+  const collectErrors = (): FormErrors<T> => {
+    const fieldErrors = mergeFieldErrors(
+      mergeFieldErrors(mergeFieldErrors(validatorErrors, nativeErrors), ruleErrors),
+      manualErrors,
+    );
+
+    return rootError === undefined ? fieldErrors : { ...fieldErrors, root: rootError };
+  };
+
+  const commitErrors = () => {
+    const currentErrors = collectErrors();
+
+    options.onErrors?.(currentErrors);
+    updateFormState({ errors: currentErrors });
+  };
+
+  const readNativeErrors = (names?: FieldPath<T>[]): boolean => {
+    if (!options.getNativeErrors) {
+      return true;
+    }
+
+    const freshErrors = options.getNativeErrors(names);
+
+    // Only the given fields were checked, the others keep their previous native errors
+    nativeErrors = names
+      ? mergeFieldErrors(
+          names.reduce((errors, name) => prunePath(errors, name), nativeErrors),
+          freshErrors,
+        )
+      : freshErrors;
+
+    return !hasFieldErrors(freshErrors);
+  };
+
+  const trackValidation = async <R>(task: Promise<R>): Promise<R> => {
+    pendingValidations += 1;
+    updateFormState({ isValidating: true });
+
+    try {
+      return await task;
+    } finally {
+      pendingValidations -= 1;
+      if (pendingValidations === 0) {
+        updateFormState({ isValidating: false });
+      }
+    }
+  };
+
+  const resolveFormErrors = async (
+    currentValues: T,
+    names?: FieldPath<T>[],
+  ): Promise<{ isValid: boolean; values: TSubmit }> => {
+    const { validator, resolver } = options;
+
+    if (!validator && !resolver) {
+      return { isValid: true, values: currentValues as unknown as TSubmit };
+    }
+
+    abortController?.abort();
+
+    const runController = new AbortController();
+    const runId = ++validationRun;
+    const context: ValidationContext = { signal: runController.signal };
+
+    abortController = runController;
+
+    let validationErrors: FieldErrors<T> = {};
+    let submitValues = currentValues as unknown as TSubmit;
+    let isResolved = true;
+    let hasFailed = false;
+
+    try {
+      if (resolver) {
+        const result = await resolver(currentValues, context);
+        validationErrors = result.errors;
+
+        // Without parsed values the schema rejected the input, even if none of its issues could be mapped
+        if (result.values === undefined) {
+          isResolved = false;
+        } else {
+          submitValues = result.values;
+        }
+      }
+
+      if (validator) {
+        validationErrors = mergeFieldErrors(validationErrors, await validator(currentValues, context));
+      }
+    } catch (error) {
+      if (runController.signal.aborted) {
+        return { isValid: false, values: submitValues };
+      }
+
+      // A failing validator, like a lost connection, blocks the submit instead of rejecting
+      validationErrors = setPath({}, 'root', toErrorMessage(error));
+      hasFailed = true;
+    }
+
+    // A newer run has started meanwhile, so this result is stale and must not overwrite its errors
+    if (runId === validationRun) {
+      abortController = null;
+      validatorErrors = names ? pickFieldErrors(validatorErrors, validationErrors, names, hasFailed) : validationErrors;
+    }
+
+    return { isValid: isResolved && !hasFieldErrors(validationErrors), values: submitValues };
+  };
+
+  const resolveFieldRules = async (names: FieldPath<T>[], currentValues: T): Promise<boolean> => {
+    const results = await Promise.all(
+      names.map(async (name) => {
+        const rules = fieldRules.get(name);
+
+        if (!rules) {
+          return true;
+        }
+
+        const runId = (fieldRuns.get(name) ?? 0) + 1;
+        fieldRuns.set(name, runId);
+
+        const message = await validateRules(getPath(currentValues, name), currentValues, rules).catch(toErrorMessage);
+
+        if (fieldRuns.get(name) === runId) {
+          ruleErrors = message ? setPath(ruleErrors, name, message) : prunePath(ruleErrors, name);
+        }
+
+        return !message;
+      }),
+    );
+
+    return results.every(Boolean);
+  };
+
+  const getDependentFields = (names: FieldPath<T>[]) => {
+    const { touched, isSubmitted } = formState;
+
+    return Array.from(fieldRules)
+      .filter(([fieldName, { deps = [] }]) => {
+        const dependencies = Array.isArray(deps) ? deps : [deps];
+
+        // Fields the user hasn't reached yet are left alone, so they don't show errors too early
+        return (
+          (isSubmitted || getPath(touched, fieldName) === true) &&
+          dependencies.some((dependency) => names.some((name) => isRelatedPath(dependency, name)))
+        );
+      })
+      .map(([fieldName]) => fieldName);
+  };
+
+  const validate = async (names?: FieldPath<T>[]): Promise<{ isValid: boolean; values: TSubmit }> => {
+    clearTimeout(debounceTimer);
+
+    const currentValues = values;
+    const changedNames = names && [...pendingFields, ...names];
+    const fieldNames = changedNames
+      ? Array.from(new Set([...changedNames, ...getDependentFields(changedNames)]))
+      : Array.from(fieldRules.keys());
+
+    pendingFields.clear();
+
+    const nativeValid = readNativeErrors(changedNames && fieldNames);
+    const [result, rulesValid] = await trackValidation(
+      Promise.all([
+        resolveFormErrors(currentValues, changedNames && fieldNames),
+        resolveFieldRules(fieldNames, currentValues),
+      ]),
+    );
+
+    commitErrors();
+
+    return { isValid: result.isValid && rulesValid && nativeValid, values: result.values };
+  };
+
+  const getValidationMode = (): ValidationMode =>
+    formState.isSubmitted ? (options.reValidateMode ?? 'onChange') : (options.validateOn ?? 'onSubmit');
+
+  const validateField = (name: FieldPath<T>) => {
+    const { validationDebounce } = options;
+    const delay = typeof validationDebounce === 'number' ? validationDebounce : validationDebounce?.[name];
+
+    if (!delay) {
+      validate([name]);
+      return;
+    }
+
+    clearTimeout(debounceTimer);
+    pendingFields.add(name);
+    debounceTimer = setTimeout(() => validate([]), delay);
+  };
+
+  // Discard any validation still in flight so it cannot bring back errors that were cleared
+  const cancelValidation = () => {
+    clearTimeout(debounceTimer);
+    abortController?.abort();
+    validationRun += 1;
+    fieldRuns.forEach((runId, name) => fieldRuns.set(name, runId + 1));
+    pendingFields.clear();
+  };
+
+  const setValue = <K extends FieldPath<T>>(name: K, value: FieldPathValue<T, K>) => {
+    modifiedFields.add(name);
+
+    // Errors set with setError stay until the user changes the affected field, or a field inside or around it
+    const changedErrorPaths = getErrorPaths(manualErrors).filter((path) => isRelatedPath(path, name));
+
+    if (changedErrorPaths.length > 0) {
+      manualErrors = changedErrorPaths.reduce((errors, path) => prunePath(errors, path), manualErrors);
+      commitErrors();
+    }
+
+    updateValues(setPath(formValues, name, value));
+    updateDirtyFields();
+    notifySubscribers(name);
+
+    if (getValidationMode() === 'onChange') {
+      validateField(name);
+    }
+  };
+
+  const setValueFromInput = (name: FieldPath<T>, input: FieldInput) => {
+    const currentValue = getPath(values, name);
+    let value: unknown;
+
+    if (input.type === 'checkbox') {
+      const defaultValue = getPath(defaultValues, name);
+
+      // A checkbox group stores the values of its checked boxes, a single checkbox its checked state
+      if (Array.isArray(currentValue) || Array.isArray(defaultValue)) {
+        const checkedValues: unknown[] = Array.isArray(currentValue) ? currentValue : (defaultValue as unknown[]);
+
+        if (!input.checked) {
+          value = checkedValues.filter((checkedValue) => checkedValue !== input.value);
+        } else {
+          value = checkedValues.includes(input.value) ? [...checkedValues] : [...checkedValues, input.value];
+        }
+      } else {
+        value = input.checked ?? false;
+      }
+    } else if (input.type === 'select-multiple') {
+      value = input.selectedValues ?? [];
+    } else if (input.type === 'file') {
+      value = input.files ?? null;
+    } else {
+      value = parseInputValue(input, fieldRules.get(name));
+    }
+
+    setValue(name, value as FieldPathValue<T, typeof name>);
+  };
+
+  const setValues = (nextValues: Partial<T>) => {
+    const prevValues = values;
+
+    updateValues(nextValues);
+    updateDirtyFields();
+    notifySubscribers();
+
+    if (getValidationMode() === 'onChange') {
+      validate(
+        Array.from(fieldRules.keys()).filter((name) => !isDeepEqual(getPath(prevValues, name), getPath(values, name))),
+      );
+    }
+  };
+
+  const updateFieldArray = (name: FieldArrayPath<T>, update: FieldArrayUpdate) => {
+    const isRowPath = (path: string) => path.startsWith(`${name}.`) || path.startsWith(`${name}[`);
+
+    for (const path of modifiedFields) {
+      if (isRowPath(path)) {
+        modifiedFields.delete(path);
+      }
+    }
+
+    // Row rules are registered again under their new indexes on the next render
+    for (const path of fieldRules.keys()) {
+      if (isRowPath(path)) {
+        fieldRules.delete(path);
+      }
+    }
+
+    modifiedFields.add(name);
+
+    const rows = getPath(formValues, name) ?? getPath(defaultValues, name);
+    const updateState = <S>(prev: S): S => {
+      const stateRows = getPath(prev, name);
+      return Array.isArray(stateRows) ? setPath(prev, name, update(stateRows, () => undefined)) : prev;
+    };
+
+    updateValues(setPath(formValues, name, update(Array.isArray(rows) ? rows : [], (value) => value)));
+
+    validatorErrors = updateState(validatorErrors);
+    ruleErrors = updateState(ruleErrors);
+    nativeErrors = updateState(nativeErrors);
+    manualErrors = updateState(manualErrors);
+    commitErrors();
+    updateFormState((prevState) => ({ touched: updateState(prevState.touched) }));
+    updateDirtyFields();
+    notifySubscribers(name);
+
+    if (getValidationMode() === 'onChange') {
+      validateField(name);
+    }
+  };
+
+  const touch = (name: FieldPath<T>) => {
+    updateFormState((prevState) => ({ touched: setPath(prevState.touched, name, true) }));
+
+    if (getValidationMode() === 'onBlur') {
+      validate([name]);
+    }
+  };
+
+  const trigger = async (name?: FieldPath<T> | FieldPath<T>[]) => {
+    const names = name === undefined || Array.isArray(name) ? name : [name];
+    const { isValid } = await validate(names);
+
+    if (!names) {
+      return isValid;
+    }
+
+    const currentErrors = collectErrors();
+
+    return names.every((fieldName) => getPath(currentErrors, fieldName) === undefined);
+  };
+
+  const submit: FormStore<T, TSubmit>['submit'] = async (onSubmit, onInvalid) => {
+    manualErrors = {};
+    rootError = undefined;
+    updateFormState((prevState) => ({ isSubmitting: true, submitCount: prevState.submitCount + 1 }));
+
+    try {
+      const { isValid, values: submitValues } = await validate();
+
+      if (!isValid) {
+        updateFormState({ isSubmitSuccessful: false });
+        await onInvalid?.(collectErrors());
+        return;
+      }
+
+      try {
+        await onSubmit(submitValues);
+        updateFormState({ isSubmitSuccessful: true });
+      } catch (error) {
+        // Keep failed submissions inside the form state instead of leaking unhandled rejections
+        rootError = toErrorMessage(error);
+        commitErrors();
+        updateFormState({ isSubmitSuccessful: false });
+      }
+    } finally {
+      updateFormState({ isSubmitted: true, isSubmitting: false });
+    }
+  };
+
+  const setError = (name: FieldPath<T> | 'root', error: ErrorOption) => {
+    if (name === 'root') {
+      rootError = error.message;
+    } else {
+      manualErrors = setPath(manualErrors, name, error.message);
+    }
+
+    commitErrors();
+  };
+
+  const clearErrors = (names?: FieldPath<T> | 'root' | Array<FieldPath<T> | 'root'>) => {
+    if (names === undefined) {
+      validatorErrors = {};
+      ruleErrors = {};
+      nativeErrors = {};
+      manualErrors = {};
+      rootError = undefined;
+    } else {
+      for (const name of Array.isArray(names) ? names : [names]) {
+        if (name === 'root') {
+          rootError = undefined;
+          validatorErrors = prunePath(validatorErrors, 'root');
+          continue;
+        }
+
+        validatorErrors = prunePath(validatorErrors, name);
+        ruleErrors = prunePath(ruleErrors, name);
+        nativeErrors = prunePath(nativeErrors, name);
+        manualErrors = prunePath(manualErrors, name);
+      }
+    }
+
+    commitErrors();
+  };
+
+  const setServerErrors = (serverErrors: ServerErrors) => {
+    for (const [path, messages] of Object.entries(serverErrors)) {
+      const message = Array.isArray(messages) ? messages[0] : messages;
+
+      if (!message) {
+        continue;
+      }
+
+      if (path === 'root' || path === '') {
+        rootError = message;
+      } else {
+        manualErrors = setPath(manualErrors, path, message);
+      }
+    }
+
+    commitErrors();
+  };
+
+  const unregister = (names: FieldPath<T> | FieldPath<T>[], unregisterOptions: UnregisterOptions = {}) => {
+    const { keepValue, keepError, keepTouched, keepDefaultValue } = unregisterOptions;
+
+    for (const name of Array.isArray(names) ? names : [names]) {
+      fieldRules.delete(name);
+
+      if (!keepValue) {
+        modifiedFields.delete(name);
+        formValues = unsetPath(formValues, name);
+
+        // Without its default value, the field disappears from the values instead of falling back to it
+        if (!keepDefaultValue) {
+          defaultValues = unsetPath(defaultValues, name);
+        }
+      }
+
+      if (!keepError) {
+        // Discard rule validation still in flight for the field so it cannot bring its error back
+        fieldRuns.set(name, (fieldRuns.get(name) ?? 0) + 1);
+        pendingFields.delete(name);
+        validatorErrors = prunePath(validatorErrors, name);
+        ruleErrors = prunePath(ruleErrors, name);
+        nativeErrors = prunePath(nativeErrors, name);
+        manualErrors = prunePath(manualErrors, name);
+      }
+
+      if (!keepTouched) {
+        updateFormState((prevState) => ({ touched: prunePath(prevState.touched, name) }));
+      }
+    }
+
+    updateValues(formValues);
+    commitErrors();
+    updateDirtyFields();
+    notifySubscribers();
+  };
+
+  const reset = (nextValues?: Partial<T>, resetOptions: ResetOptions = {}) => {
+    const { keepDirty, keepErrors, keepTouched, keepDefaultValues } = resetOptions;
+
+    if (nextValues && !keepDefaultValues) {
+      defaultValues = nextValues;
+    }
+
+    modifiedFields.clear();
+    updateValues(nextValues ?? defaultValues);
+
+    if (!keepErrors) {
+      cancelValidation();
+      validatorErrors = {};
+      ruleErrors = {};
+      nativeErrors = {};
+      manualErrors = {};
+      rootError = undefined;
+      commitErrors();
+    }
+
+    if (!keepTouched) {
+      updateFormState({ touched: {} });
+    }
+
+    // Kept dirty fields stay as they are until the next change recomputes them
+    if (!keepDirty) {
+      updateDirtyFields();
+    }
+
+    updateFormState({ isSubmitted: false, isSubmitSuccessful: false, submitCount: 0 });
+    notifySubscribers();
+  };
+
+  const getDirtyValues = (): Partial<T> => {
+    const currentDirtyFields = getDirtyFields(values, defaultValues);
+
+    return currentDirtyFields === undefined ? {} : (pickDirtyValues(values, currentDirtyFields) as Partial<T>);
+  };
+
+  return {
+    getValues,
+    getDefaultValues,
+    getDirtyValues,
+    setValue,
+    setValueFromInput,
+    setValues,
+    updateFieldArray,
+    touch,
+    getFieldRules: (name) => fieldRules.get(name),
+    setFieldRules: (name, rules) => {
+      fieldRules.set(name, rules);
+    },
+    getValidationMode,
+    validate,
+    trigger,
+    submit,
+    setError,
+    clearErrors,
+    setServerErrors,
+    unregister,
+    reset,
+    subscribe,
+    getFormState,
+    subscribeFormState,
+    setLoading: (isLoading) => {
+      updateFormState({ isLoading });
+    },
+    setOptions: (nextOptions) => {
+      options = { ...options, ...nextOptions };
+    },
+    destroy: () => {
+      clearTimeout(debounceTimer);
+      abortController?.abort();
+    },
+  };
+}
@@ -0,0 +1,334 @@
+/**
+ * Primitive type is used to define values that are never traversed when building field paths.
+ */
+type Primitive = string | number | boolean | bigint | symbol | null | undefined;
+
+/**
+ * FieldLeaf type is used to define the values that are treated as a single field rather than a nested object.
+ */
+export type FieldLeaf = Primitive | Date | File | FileList | Blob;
+
+type IsLeaf<V> = [V] extends [FieldLeaf] ? true : false;
+
+type ArrayPath<K extends string, U> =
+  | `${K}.${number}`
+  | `${K}[${number}]`
+  | (IsLeaf<U> extends true ? never : `${K}.${number}.${FieldPath<U>}` | `${K}[${number}].${FieldPath<U>}`);
+
+type PathImpl<K extends string, V> =
+  IsLeaf<V> extends true
+    ? K
+    : V extends ReadonlyArray<infer U>
+      ? K | ArrayPath<K, U>
+      : V extends object
+        ? K | `${K}.${FieldPath<V>}`
+        : K;
+
+/**
+ * FieldPath type is used to define every dot or bracket path that can be registered for the given values.
+ */
+export type FieldPath<T> = unknown extends T
+  ? string
+  : {
+      [K in keyof T & string]-?: PathImpl<K, NonNullable<T[K]>>;
+    }[keyof T & string];
+
+type NormalizePath<P extends string> = P extends `${infer A}[${infer I}]${infer R}` ? NormalizePath<`${A}.${I}${R}`> : P;
+
+type PathValueImpl<T, P extends string> = T extends ReadonlyArray<infer U>
+  ? P extends `${number}.${infer R}`
+    ? PathValueImpl<NonNullable<U>, R>
+    : P extends `${number}`
+      ? U
+      : never
+  : P extends `${infer K}.${infer R}`
+    ? K extends keyof T
+      ? PathValueImpl<NonNullable<T[K]>, R>
+      : never
+    : P extends keyof T
+      ? T[P]
+      : never;
+
+/**
+ * FieldPathValue type is used to define the type of the value stored at the given field path.
+ */
+export type FieldPathValue<T, P extends string> = unknown extends T ? unknown : PathValueImpl<T, NormalizePath<P>>;
+
+/**
+ * FieldErrors type is used to define error messages that mirror the shape of the form values.
+ */
+export type FieldErrors<T> = {
+  [K in keyof T]?: IsLeaf<NonNullable<T[K]>> extends true
+    ? string
+    : NonNullable<T[K]> extends ReadonlyArray<infer U>
+      ? IsLeaf<U> extends true
+        ? string
+        : Array<FieldErrors<U> | undefined> | string
+      : FieldErrors<NonNullable<T[K]>> | string;
+};
+
+/**
+ * FieldTouched type is used to define touched flags that mirror the shape of the form values.
+ */
+export type FieldTouched<T> = {
+  [K in keyof T]?: IsLeaf<NonNullable<T[K]>> extends true
+    ? boolean
+    : NonNullable<T[K]> extends ReadonlyArray<infer U>
+      ? IsLeaf<U> extends true
+        ? boolean
+        : Array<FieldTouched<U> | undefined>
+      : FieldTouched<NonNullable<T[K]>>;
+};
+
+/**
+ * FieldDirty type is used to define dirty flags that mirror the shape of the form values.
+ */
+export type FieldDirty<T> = FieldTouched<T>;
+
+/**
+ * FieldArrayPath type is used to define the field paths that hold an array of rows.
+ */
+export type FieldArrayPath<T> = {
+  [P in FieldPath<T>]: NonNullable<FieldPathValue<T, P>> extends ReadonlyArray<unknown> ? P : never;
+}[FieldPath<T>];
+
+/**
+ * FieldArrayItem type is used to define the type of a single row of a field array.
+ */
+export type FieldArrayItem<T, P extends string> = NonNullable<FieldPathValue<T, P>> extends ReadonlyArray<infer U> ? U : never;
+
+/**
+ * isPlainObject function checks whether a value is a plain object that should be traversed by path helpers.
+ */
+export function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return Object.prototype.toString.call(value) === '[object Object]';
+}
+
+/**
+ * parsePath function splits a dot or bracket path like `items[0].qty` into its keys.
+ */
+export function parsePath(path: string): string[] {
+  return path
+    .replace(/\[(\w+)\]/g, '.$1')
+    .split('.')
+    .filter((key) => key !== '');
+}
+
+/**
+ * isRelatedPath function checks whether a change at one path affects the other, because one of them contains the other.
+ */
+export function isRelatedPath(a: string, b: string): boolean {
+  const [shorter, longer] = [parsePath(a), parsePath(b)].sort((x, y) => x.length - y.length);
+
+  return shorter.every((key, index) => key === longer[index]);
+}
+
+/**
+ * getPath function reads the value stored at the given path, returning undefined for missing branches.
+ */
+export function getPath(object: unknown, path: string): unknown {
+  let current = object;
+
+  for (const key of parsePath(path)) {
+    if (current === null || current === undefined || typeof current !== 'object') {
+      return undefined;
+    }
+
+    current = (current as Record<string, unknown>)[key];
+  }
+
+  return current;
+}
+
+const assignPath = (target: unknown, keys: string[], value: unknown): unknown => {
+  if (keys.length === 0) {
+    return value;
+  }
+
+  const [key, ...rest] = keys;
+  let container: Record<string, unknown>;
+
+  if (Array.isArray(target)) {
+    container = [...target] as unknown as Record<string, unknown>;
+  } else if (isPlainObject(target)) {
+    container = { ...target };
+  } else {
+    container = (/^\d+$/.test(key) ? [] : {}) as Record<string, unknown>;
+  }
+
+  container[key] = assignPath(container[key], rest, value);
+
+  return container;
+};
+
+/**
+ * setPath function returns a copy of the object with the value written at the given path.
+ */
+export function setPath<T>(object: T, path: string, value: unknown): T {
+  return assignPath(object, parsePath(path), value) as T;
+}
+
+/**
+ * mergeValues function deeply overlays the current values on top of the base values.
+ */
+export function mergeValues<T>(base: T, override: unknown): T {
+  if (!isPlainObject(base) || !isPlainObject(override)) {
+    return (override === undefined ? base : override) as T;
+  }
+
+  const result: Record<string, unknown> = { ...base };
+
+  for (const key in override) {
+    if (Object.prototype.hasOwnProperty.call(override, key)) {
+      result[key] = isPlainObject(result[key]) ? mergeValues(result[key], override[key]) : override[key];
+    }
+  }
+
+  return result as T;
+}
+
+/**
+ * unsetPath function returns a copy of the object without the value at the given path.
+ * Array entries are cleared rather than removed so that the remaining rows keep their indexes.
+ */
+export function unsetPath<T>(object: T, path: string): T {
+  const keys = parsePath(path);
+  const key = keys.pop();
+  const parent = keys.length > 0 ? getPath(object, keys.join('.')) : object;
+
+  if (key === undefined || parent === null || typeof parent !== 'object' || !(key in parent)) {
+    return object;
+  }
+
+  if (Array.isArray(parent)) {
+    const rows = [...parent];
+    rows[Number(key)] = undefined;
+    return keys.length > 0 ? setPath(object, keys.join('.'), rows) : (rows as T);
+  }
+
+  const rest = { ...(parent as Record<string, unknown>) };
+  delete rest[key];
+
+  return keys.length > 0 ? setPath(object, keys.join('.'), rest) : (rest as T);
+}
+
+/**
+ * prunePath function works like unsetPath, but also removes the parents it leaves empty.
+ * It is used for sparse trees like errors and touched fields, where an empty branch would still be truthy.
+ */
+export function prunePath<T>(object: T, path: string): T {
+  const keys = parsePath(path);
+  let result = unsetPath(object, path);
+
+  for (let depth = keys.length - 1; depth > 0; depth--) {
+    const parentPath = keys.slice(0, depth).join('.');
+    const parent = getPath(result, parentPath);
+    const isEmpty = Array.isArray(parent)
+      ? parent.every((row) => row === undefined)
+      : isPlainObject(parent) && Object.keys(parent).length === 0;
+
+    if (!isEmpty) {
+      break;
+    }
+
+    result = unsetPath(result, parentPath);
+  }
+
+  return result;
+}
+
+/**
+ * isDeepEqual function compares two form values structurally, including arrays, plain objects and dates.
+ */
+export function isDeepEqual(a: unknown, b: unknown): boolean {
+  if (Object.is(a, b)) {
+    return true;
+  }
+
+  if (a instanceof Date && b instanceof Date) {
+    return a.getTime() === b.getTime();
+  }
+
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((value, index) => isDeepEqual(value, b[index]));
+  }
+
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keys = Object.keys(a);
+
+    return (
+      keys.length === Object.keys(b).length &&
+      keys.every((key) => Object.prototype.hasOwnProperty.call(b, key) && isDeepEqual(a[key], b[key]))
+    );
+  }
+
+  return false;
+}
+
+const isPrimitiveArray = (value: unknown): value is unknown[] =>
+  Array.isArray(value) && !value.some((item) => isPlainObject(item) || Array.isArray(item));
+
+/**
+ * getDirtyFields function deeply compares values with their defaults and flags every field that differs.
+ * Arrays of primitives, like checkbox groups, are compared regardless of the order of their items.
+ */
+export function getDirtyFields(values: unknown, defaults: unknown): unknown {
+  if (isPlainObject(values) || isPlainObject(defaults)) {
+    const isMissing = (value: unknown) => value === undefined || value === null;
+
+    if ((!isPlainObject(values) && !isMissing(values)) || (!isPlainObject(defaults) && !isMissing(defaults))) {
+      return true;
+    }
+
+    const currentValues = (values ?? {}) as Record<string, unknown>;
+    const defaultValues = (defaults ?? {}) as Record<string, unknown>;
+    const result: Record<string, unknown> = {};
+
+    for (const key of new Set([...Object.keys(currentValues), ...Object.keys(defaultValues)])) {
+      const dirty = getDirtyFields(currentValues[key], defaultValues[key]);
+
+      if (dirty !== undefined) {
+        result[key] = dirty;
+      }
+    }
+
+    return Object.keys(result).length > 0 ? result : undefined;
+  }
+
+  if (isPrimitiveArray(values) && isPrimitiveArray(defaults)) {
+    const sortItems = (items: unknown[]) => items.map(String).sort();
+
+    return isDeepEqual(sortItems(values), sortItems(defaults)) ? undefined : true;
+  }
+
+  if (Array.isArray(values) || Array.isArray(defaults)) {
+    const currentRows = Array.isArray(values) ? values : [];
+    const defaultRows = Array.isArray(defaults) ? defaults : [];
+    const rows = Array.from({ length: Math.max(currentRows.length, defaultRows.length) }, (_, index) =>
+      getDirtyFields(currentRows[index], defaultRows[index]),
+    );
+
+    return rows.some((row) => row !== undefined) ? rows : undefined;
+  }
+
+  return isDeepEqual(values, defaults) ? undefined : true;
+}
+
+/**
+ * pickDirtyValues function returns the subset of the values flagged in dirtyFields.
+ * Arrays are returned whole as soon as one of their rows changed.
+ */
+export function pickDirtyValues(values: unknown, dirtyFields: unknown): unknown {
+  if (dirtyFields === true || Array.isArray(dirtyFields) || !isPlainObject(dirtyFields)) {
+    return values;
+  }
+
+  const currentValues = isPlainObject(values) ? values : {};
+  const result: Record<string, unknown> = {};
+
+  for (const key of Object.keys(dirtyFields)) {
+    result[key] = pickDirtyValues(currentValues[key], dirtyFields[key]);
+  }
+
+  return result;
+}
@@ -0,0 +1,149 @@
+import { getPath, isPlainObject, setPath, unsetPath, type FieldPath } from './path';
+
+/**
+ * PersistStorage interface is used to define the storage a form draft is saved to.
+ * `localStorage` and `sessionStorage` fit as they are; async adapters, e.g. for IndexedDB, may return promises.
+ */
+export interface PersistStorage {
+  getItem: (key: string) => string | null | Promise<string | null>;
+  setItem: (key: string, value: string) => void | Promise<void>;
+  removeItem: (key: string) => void | Promise<void>;
+}
+
+/**
+ * PersistOptions interface is used to define how the draft of a form is saved and restored.
+ * `migrate` receives drafts saved with another `version` and returns the values to restore.
+ */
+export interface PersistOptions<T> {
+  key: string;
+  storage?: PersistStorage;
+  include?: FieldPath<T>[];
+  exclude?: FieldPath<T>[];
+  version?: number;
+  migrate?: (values: unknown, version: number) => Partial<T> | undefined;
+}
+
+const getStorage = <T>(persist: PersistOptions<T>): PersistStorage | undefined =>
+  persist.storage ?? (typeof window === 'undefined' ? undefined : window.localStorage);
+
+const runStorage = (action: () => void | Promise<void>) => {
+  // A full or unavailable storage must not break the form, the draft is only a convenience
+  try {
+    Promise.resolve(action()).catch(() => undefined);
+  } catch {
+    // Ignored for the same reason
+  }
+};
+
+/**
+ * stripFiles function removes files and blobs from the values, as they can't be serialised.
+ */
+function stripFiles(value: unknown): unknown {
+  if (value instanceof Blob || (typeof FileList !== 'undefined' && value instanceof FileList)) {
+    return undefined;
+  }
+
+  if (Array.isArray(value)) {
+    return value.map(stripFiles);
+  }
+
+  if (isPlainObject(value)) {
+    return Object.fromEntries(
+      Object.entries(value)
+        .map(([key, item]) => [key, stripFiles(item)])
+        .filter(([, item]) => item !== undefined),
+    );
+  }
+
+  return value;
+}
+
+/**
+ * parseDraft function reads the values of a saved draft, migrating drafts saved with another version.
+ */
+function parseDraft<T>(raw: string | null, persist: PersistOptions<T>): Partial<T> | undefined {
+  if (raw === null) {
+    return undefined;
+  }
+
+  try {
+    const { version, values } = JSON.parse(raw) as { version: number; values: unknown };
+
+    if (version === (persist.version ?? 0)) {
+      return values as Partial<T>;
+    }
+
+    return persist.migrate?.(values, version);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * readDraft function loads the saved draft of a form, synchronously when the storage allows it.
+ */
+export function readDraft<T>(
+  persist: PersistOptions<T>,
+): Partial<T> | undefined | Promise<Partial<T> | undefined> {
+  const storage = getStorage(persist);
+
+  if (!storage) {
+    return undefined;
+  }
+
+  try {
+    const raw = storage.getItem(persist.key);
+
+    return raw instanceof Promise
+      ? raw.then(
+          (value) => parseDraft(value, persist),
+          () => undefined,
+        )
+      : parseDraft(raw, persist);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * writeDraft function saves the given values as the draft of a form, or removes the draft when nothing is left.
+ * Fields outside `include`, fields in `exclude`, the given sensitive fields and files are never saved.
+ */
+export function writeDraft<T>(persist: PersistOptions<T>, values: Partial<T>, sensitiveNames: string[] = []) {
+  const storage = getStorage(persist);
+
+  if (!storage) {
+    return;
+  }
+
+  let draftValues: unknown = persist.include
+    ? persist.include.reduce<unknown>((draft, name) => {
+        const value = getPath(values, name);
+        return value === undefined ? draft : setPath(draft, name, value);
+      }, {})
+    : values;
+
+  for (const name of [...(persist.exclude ?? []), ...sensitiveNames]) {
+    draftValues = unsetPath(draftValues, name);
+  }
+
+  draftValues = stripFiles(draftValues);
+
+  if (isPlainObject(draftValues) && Object.keys(draftValues).length > 0) {
+    const draft = JSON.stringify({ version: persist.version ?? 0, values: draftValues });
+    runStorage(() => storage.setItem(persist.key, draft));
+  } else {
+    runStorage(() => storage.removeItem(persist.key));
+  }
+}
+
+/**
+ * removeDraft function deletes the saved draft of a form.
+ */
+export function removeDraft<T>(persist: PersistOptions<T>) {
+  const storage = getStorage(persist);
+
+  if (storage) {
+    runStorage(() => storage.removeItem(persist.key));
+  }
+}
@@ -0,0 +1,159 @@
+import { getPath, setPath, type FieldErrors } from './path';
+
+/**
+ * ResolverResult type is used to define the outcome of resolving form values against a schema.
+ * `values` holds the parsed output and is only present when there are no errors.
+ */
+export type ResolverResult<TValues, TSubmit = TValues> = {
+  values?: TSubmit;
+  errors: FieldErrors<TValues>;
+};
+
+/**
+ * ValidationContext interface is used to define the context passed to validators and resolvers.
+ * The signal is aborted as soon as a newer validation run starts, so pending requests can be cancelled.
+ */
+export interface ValidationContext {
+  signal: AbortSignal;
+}
+
+/**
+ * Resolver type is used to define a function that validates and transforms form values.
+ */
+export type Resolver<TValues, TSubmit = TValues> = (
+  values: TValues,
+  context?: ValidationContext,
+) => ResolverResult<TValues, TSubmit> | Promise<ResolverResult<TValues, TSubmit>>;
+
+/**
+ * StandardSchemaV1Issue interface is used to define a single issue reported by a Standard Schema validator.
+ */
+export interface StandardSchemaV1Issue {
+  readonly message: string;
+  readonly path?: ReadonlyArray<PropertyKey | { readonly key: PropertyKey }> | undefined;
+}
+
+/**
+ * StandardSchemaV1Result type is used to define the result of a Standard Schema validation.
+ */
+export type StandardSchemaV1Result<Output> =
+  | { readonly value: Output; readonly issues?: undefined }
+  | { readonly issues: ReadonlyArray<StandardSchemaV1Issue> };
+
+/**
+ * StandardSchemaV1 interface is used to define any schema implementing the Standard Schema specification
+ * (Valibot, ArkType, Zod 3.24+, Yup 1.7+ and others).
+ */
+export interface StandardSchemaV1<Input = unknown, Output = Input> {
+  readonly '~standard': {
+    readonly version: 1;
+    readonly vendor: string;
+    readonly validate: (value: unknown) => StandardSchemaV1Result<Output> | Promise<StandardSchemaV1Result<Output>>;
+    readonly types?: { readonly input: Input; readonly output: Output } | undefined;
+  };
+}
+
+/**
+ * ZodSchemaLike interface is used to define the subset of a Zod schema used by zodResolver.
+ */
+export interface ZodSchemaLike<Input, Output> {
+  readonly _input: Input;
+  readonly _output: Output;
+  safeParseAsync: (
+    value: unknown,
+  ) => Promise<
+    | { success: true; data: Output }
+    | { success: false; error: { issues: ReadonlyArray<{ path: ReadonlyArray<PropertyKey>; message: string }> } }
+  >;
+}
+
+/**
+ * YupSchemaLike interface is used to define the subset of a Yup schema used by yupResolver.
+ */
+export interface YupSchemaLike<Output> {
+  readonly __outputType: Output;
+  validate: (value: unknown, options?: { abortEarly?: boolean }) => Promise<Output>;
+}
+
+/**
+ * toFieldErrors function maps schema issues onto a nested errors object, keeping the first message per field.
+ * Issues without a path, like an object-level refinement, become the form-level `root` error.
+ */
+export function toFieldErrors<TValues>(
+  issues: ReadonlyArray<{ message: string; path?: ReadonlyArray<PropertyKey | { readonly key: PropertyKey }> | string }>,
+): FieldErrors<TValues> {
+  let errors: FieldErrors<TValues> = {};
+
+  for (const issue of issues) {
+    const path =
+      typeof issue.path === 'string'
+        ? issue.path
+        : (issue.path ?? [])
+            .map((segment) => String(typeof segment === 'object' ? segment.key : segment))
+            .join('.');
+
+    const errorPath = path || 'root';
+
+    if (getPath(errors, errorPath) === undefined) {
+      errors = setPath(errors, errorPath, issue.message);
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * standardSchemaResolver function creates a resolver from any Standard Schema compatible schema.
+ */
+export function standardSchemaResolver<Input, Output>(
+  schema: StandardSchemaV1<Input, Output>,
+): Resolver<Input, Output> {
+  return async (values) => {
+    const result = await schema['~standard'].validate(values);
+
+    if (result.issues) {
+      return { errors: toFieldErrors<Input>(result.issues) };
+    }
+
+    return { values: result.value, errors: {} };
+  };
+}
+
+/**
+ * zodResolver function creates a resolver from a Zod schema, including versions without Standard Schema support.
+ */
+export function zodResolver<Input, Output>(schema: ZodSchemaLike<Input, Output>): Resolver<Input, Output> {
+  return async (values) => {
+    const result = await schema.safeParseAsync(values);
+
+    if (!result.success) {
+      return { errors: toFieldErrors<Input>(result.error.issues) };
+    }
+
+    return { values: result.data, errors: {} };
+  };
+}
+
+/**
+ * yupResolver function creates a resolver from a Yup schema, collecting every error instead of the first one.
+ */
+export function yupResolver<Output>(schema: YupSchemaLike<Output>): Resolver<Output, Output> {
+  return async (values) => {
+    try {
+      const output = await schema.validate(values, { abortEarly: false });
+
+      return { values: output, errors: {} };
+    } catch (error) {
+      if (!(error instanceof Error) || error.name !== 'ValidationError') {
+        throw error;
+      }
+
+      const { inner = [], path, message } = error as Error & {
+        inner?: Array<{ path?: string; message: string }>;
+        path?: string;
+      };
+
+      return { errors: toFieldErrors<Output>(inner.length > 0 ? inner : [{ path, message }]) };
+    }
+  };
+}
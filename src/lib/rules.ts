@@ -0,0 +1,131 @@
+import type { FieldPath } from './path';
+
+/**
+ * ValidationRule type is used to define a rule value, optionally paired with a custom error message.
+ */
+export type ValidationRule<V> = V | { value: V; message: string };
+
+/**
+ * ValidateResult type is used to define the result of a custom validate function.
+ * A string is used as the error message, `false` marks the value as invalid and anything else as valid.
+ */
+export type ValidateResult = string | boolean | undefined;
+
+/**
+ * Validate type is used to define a custom validation function for a single field.
+ */
+export type Validate<TValue, TValues> = (value: TValue, values: TValues) => ValidateResult | Promise<ValidateResult>;
+
+/**
+ * RegisterOptions interface is used to define the validation rules and value parsing options passed to register.
+ * Number and range inputs are parsed as numbers unless `valueAsNumber` is `false`; `setValueAs` replaces any parsing.
+ * `shouldUnregister` overrides the form option of the same name for this field.
+ * `deps` lists the fields this field depends on; it is validated again whenever one of them is.
+ */
+export interface RegisterOptions<TValue = unknown, TValues = unknown> {
+  deps?: FieldPath<TValues> | FieldPath<TValues>[];
+  shouldUnregister?: boolean;
+  valueAsNumber?: boolean;
+  valueAsDate?: boolean;
+  setValueAs?: (value: string) => TValue;
+  required?: boolean | string;
+  minLength?: ValidationRule<number>;
+  maxLength?: ValidationRule<number>;
+  min?: ValidationRule<number | string>;
+  max?: ValidationRule<number | string>;
+  pattern?: ValidationRule<RegExp>;
+  validate?: Validate<TValue, TValues> | Record<string, Validate<TValue, TValues>>;
+}
+
+const getRule = <V>(rule: ValidationRule<V>, defaultMessage: (value: V) => string) =>
+  typeof rule === 'object' && rule !== null && 'value' in rule && 'message' in rule
+    ? rule
+    : { value: rule as V, message: defaultMessage(rule as V) };
+
+const isEmptyValue = (value: unknown) =>
+  value === undefined ||
+  value === null ||
+  value === '' ||
+  value === false ||
+  (Array.isArray(value) && value.length === 0);
+
+const toComparable = (value: unknown, limit: number | string) => {
+  if (typeof limit === 'string' && Number.isNaN(Number(limit))) {
+    return { value: new Date(String(value)).getTime(), limit: new Date(limit).getTime() };
+  }
+
+  return { value: Number(value), limit: Number(limit) };
+};
+
+/**
+ * validateRules function runs the register rules of a single field and returns the first error message.
+ */
+export async function validateRules<TValue, TValues>(
+  value: TValue,
+  values: TValues,
+  rules: RegisterOptions<TValue, TValues>,
+): Promise<string | undefined> {
+  const { required, minLength, maxLength, min, max, pattern, validate } = rules;
+
+  if (isEmptyValue(value)) {
+    if (required) {
+      return typeof required === 'string' ? required : 'This field is required';
+    }
+  } else {
+    const length = typeof value === 'string' || Array.isArray(value) ? value.length : undefined;
+
+    if (minLength !== undefined && length !== undefined) {
+      const rule = getRule(minLength, (limit) => `Must be at least ${limit} characters`);
+      if (length < rule.value) {
+        return rule.message;
+      }
+    }
+
+    if (maxLength !== undefined && length !== undefined) {
+      const rule = getRule(maxLength, (limit) => `Must be at most ${limit} characters`);
+      if (length > rule.value) {
+        return rule.message;
+      }
+    }
+
+    if (min !== undefined) {
+      const rule = getRule(min, (limit) => `Must be at least ${limit}`);
+      const comparable = toComparable(value, rule.value);
+      if (comparable.value < comparable.limit) {
+        return rule.message;
+      }
+    }
+
+    if (max !== undefined) {
+      const rule = getRule(max, (limit) => `Must be at most ${limit}`);
+      const comparable = toComparable(value, rule.value);
+      if (comparable.value > comparable.limit) {
+        return rule.message;
+      }
+    }
+
+    if (pattern !== undefined && typeof value === 'string') {
+      const rule = getRule(pattern, () => 'Invalid format');
+      rule.value.lastIndex = 0;
+      if (!rule.value.test(value)) {
+        return rule.message;
+      }
+    }
+  }
+
+  const validators = typeof validate === 'function' ? [validate] : Object.values(validate ?? {});
+
+  for (const validator of validators) {
+    const result = await validator(value, values);
+
+    if (typeof result === 'string' && result !== '') {
+      return result;
+    }
+
+    if (result === false) {
+      return 'Invalid value';
+    }
+  }
+
+  return undefined;
+}
@@ -0,0 +1,109 @@
+import React from 'react';
+import { getPath, type FieldPath, type FieldPathValue } from './path';
+import type { RegisterOptions } from './rules';
+import type { FieldElement, FormControl } from './useForm';
+import { FormContext } from './useFormContext';
+import { useFormState } from './useFormState';
+import { useWatch } from './useWatch';
+
+/**
+ * UseControllerOptions interface is used to define the options for useController hook.
+ * `control` can be omitted inside a FormProvider.
+ */
+export interface UseControllerOptions<T, K extends FieldPath<T>> {
+  name: K;
+  control?: FormControl<T>;
+  rules?: RegisterOptions<FieldPathValue<T, K>, T>;
+}
+
+/**
+ * ControllerFieldState interface is used to define the validation and interaction state of a controlled field.
+ */
+export interface ControllerFieldState {
+  invalid: boolean;
+  isTouched: boolean;
+  isDirty: boolean;
+  error?: string;
+}
+
+/**
+ * UseControllerReturn interface is used to define the return type of useController hook.
+ */
+export interface UseControllerReturn<T, K extends FieldPath<T>> {
+  field: {
+    name: K;
+    value: FieldPathValue<T, K>;
+    onChange: (value: unknown) => void;
+    onBlur: () => void;
+    ref: (element: FieldElement | null) => void;
+  };
+  fieldState: ControllerFieldState;
+}
+
+/**
+ * getEventValue function returns the value of a change event, or the argument itself when it isn't an event.
+ */
+function getEventValue(value: unknown): unknown {
+  if (typeof value !== 'object' || value === null || !('target' in value)) {
+    return value;
+  }
+
+  const { target } = value as { target: unknown };
+
+  const isFormInput =
+    target instanceof HTMLInputElement || target instanceof HTMLSelectElement || target instanceof HTMLTextAreaElement;
+
+  if (!isFormInput) {
+    return value;
+  }
+
+  return target instanceof HTMLInputElement && target.type === 'checkbox' ? target.checked : target.value;
+}
+
+/**
+ * useController function is a custom hook that connects a non-native or third-party input to a form.
+ * The component re-renders only when the value or the state of its own field changes.
+ */
+export function useController<T, K extends FieldPath<T>>({
+  name,
+  control: controlOption,
+  rules,
+}: UseControllerOptions<T, K>): UseControllerReturn<T, K> {
+  const form = React.useContext(FormContext);
+  const control = controlOption ?? (form?.control as FormControl<T> | undefined);
+
+  if (!control) {
+    throw new Error('useController must be given a control or be used inside a FormProvider');
+  }
+
+  const value = useWatch({ control, name });
+  const { errors, touched, dirtyFields } = useFormState({ control, name });
+  const { onBlur } = control.register(name, rules);
+
+  const onChange = React.useCallback(
+    (event: unknown) => {
+      control.setValue(name, getEventValue(event) as FieldPathValue<T, K>);
+    },
+    [control, name],
+  );
+
+  // Stable across renders, so the field isn't detached and attached again on every render
+  const ref = React.useCallback(
+    (element: FieldElement | null) => {
+      control.setFieldElement(name, element);
+    },
+    [control, name],
+  );
+
+  const error = getPath(errors, name);
+
+  return {
+    field: { name, value, onChange, onBlur, ref },
+    fieldState: {
+      invalid: typeof error === 'string',
+      isTouched: getPath(touched, name) === true,
+      isDirty: getPath(dirtyFields, name) !== undefined,
+      error: typeof error === 'string' ? error : undefined,
+    },
+  };
+}
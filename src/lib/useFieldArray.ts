@@ -0,0 +1,168 @@
+import React from 'react';
+import { getPath, parsePath, type FieldArrayItem, type FieldArrayPath } from './path';
+import type { FieldArrayUpdate, FormControl } from './useForm';
+
+/**
+ * FieldArrayWithId type is used to define a field array row extended with its stable React key.
+ */
+export type FieldArrayWithId<TItem, TKeyName extends string = 'id'> = TItem & Record<TKeyName, string>;
+
+/**
+ * UseFieldArrayOptions interface is used to define the options for useFieldArray hook.
+ */
+export interface UseFieldArrayOptions<T, TName extends FieldArrayPath<T>, TKeyName extends string = 'id'> {
+  control: FormControl<T>;
+  name: TName;
+  keyName?: TKeyName;
+}
+
+/**
+ * UseFieldArrayReturn interface is used to define the return type of useFieldArray hook.
+ */
+export interface UseFieldArrayReturn<TItem, TKeyName extends string = 'id'> {
+  fields: FieldArrayWithId<TItem, TKeyName>[];
+  append: (value: TItem | TItem[]) => void;
+  prepend: (value: TItem | TItem[]) => void;
+  insert: (index: number, value: TItem | TItem[]) => void;
+  remove: (index?: number | number[]) => void;
+  move: (from: number, to: number) => void;
+  swap: (indexA: number, indexB: number) => void;
+  replace: (value: TItem[]) => void;
+}
+
+let fieldArrayIdCounter = 0;
+
+const generateId = () => `field-${++fieldArrayIdCounter}`;
+
+const toArray = <V>(value: V | V[]): V[] => (Array.isArray(value) ? value : [value]);
+
+/**
+ * useFieldArray function is a custom hook for managing repeating rows of a form registered with useForm.
+ */
+export function useFieldArray<T, TName extends FieldArrayPath<T>, TKeyName extends string = 'id'>({
+  control,
+  name,
+  keyName = 'id' as TKeyName,
+}: UseFieldArrayOptions<T, TName, TKeyName>): UseFieldArrayReturn<FieldArrayItem<T, TName>, TKeyName> {
+  type Item = FieldArrayItem<T, TName>;
+
+  const idsRef = React.useRef<string[]>([]);
+  const isUpdatingRowsRef = React.useRef(false);
+  const [, setRevision] = React.useState(0);
+
+  // Rows are also replaced by setValue, reset and loaded default values, not only by the methods below
+  React.useEffect(() => {
+    const keys = parsePath(name);
+
+    return control.subscribe((_, { name: changedName }) => {
+      const changedKeys = changedName === undefined ? [] : parsePath(changedName);
+
+      // Changes inside a row don't affect the rows themselves
+      if (!changedKeys.every((key, index) => key === keys[index])) {
+        return;
+      }
+
+      // Replaced rows get new keys, so their inputs mount again with the new values
+      if (!isUpdatingRowsRef.current) {
+        idsRef.current = [];
+      }
+
+      setRevision((revision) => revision + 1);
+    });
+  }, [control, name]);
+
+  const rows = getPath(control.getValues(), name);
+  const items = (Array.isArray(rows) ? rows : []) as Item[];
+
+  if (idsRef.current.length !== items.length) {
+    idsRef.current = items.map((_, index) => idsRef.current[index] ?? generateId());
+  }
+
+  const updateRows = React.useCallback(
+    (update: FieldArrayUpdate) => {
+      idsRef.current = update(idsRef.current, generateId);
+      isUpdatingRowsRef.current = true;
+      control.updateFieldArray(name, update);
+      isUpdatingRowsRef.current = false;
+    },
+    [control, name],
+  );
+
+  const append = React.useCallback(
+    (value: Item | Item[]) => {
+      updateRows((current, create) => [...current, ...toArray(value).map(create)]);
+    },
+    [updateRows],
+  );
+
+  const prepend = React.useCallback(
+    (value: Item | Item[]) => {
+      updateRows((current, create) => [...toArray(value).map(create), ...current]);
+    },
+    [updateRows],
+  );
+
+  const insert = React.useCallback(
+    (index: number, value: Item | Item[]) => {
+      updateRows((current, create) => [
+        ...current.slice(0, index),
+        ...toArray(value).map(create),
+        ...current.slice(index),
+      ]);
+    },
+    [updateRows],
+  );
+
+  const remove = React.useCallback(
+    (index?: number | number[]) => {
+      const indexes = index === undefined ? undefined : toArray(index);
+      updateRows((current) => (indexes ? current.filter((_, i) => !indexes.includes(i)) : []));
+    },
+    [updateRows],
+  );
+
+  const move = React.useCallback(
+    (from: number, to: number) => {
+      updateRows((current) => {
+        const next = [...current];
+        const [row] = next.splice(from, 1);
+        next.splice(to, 0, row);
+        return next;
+      });
+    },
+    [updateRows],
+  );
+
+  const swap = React.useCallback(
+    (indexA: number, indexB: number) => {
+      updateRows((current) => {
+        const next = [...current];
+        [next[indexA], next[indexB]] = [next[indexB], next[indexA]];
+        return next;
+      });
+    },
+    [updateRows],
+  );
+
+  const replace = React.useCallback(
+    (value: Item[]) => {
+      updateRows((_, create) => value.map(create));
+    },
+    [updateRows],
+  );
+
+  const fields = items.map(
+    (item, index) => ({ ...(item as object), [keyName]: idsRef.current[index] }) as FieldArrayWithId<Item, TKeyName>,
+  );
+
+  return {
+    fields,
+    append,
+    prepend,
+    insert,
+    remove,
+    move,
+    swap,
+    replace,
+  };
+}
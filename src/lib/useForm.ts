@@ -1,14 +1,68 @@
 import React from 'react';
+import {
+  createFormControl,
+  formStateKeys,
+  type ErrorOption,
+  type FieldArrayUpdate,
+  type FieldInput,
+  type FormErrors,
+  type FormState,
+  type FormStateListener,
+  type FormStoreOptions,
+  type ResetOptions,
+  type ServerErrors,
+  type UnregisterOptions,
+  type ValidationMode,
+  type WatchListener,
+} from './createFormControl';
+import {
+  getPath,
+  isDeepEqual,
+  isRelatedPath,
+  mergeValues,
+  parsePath,
+  setPath,
+  unsetPath,
+  type FieldArrayPath,
+  type FieldErrors,
+  type FieldPath,
+  type FieldPathValue,
+} from './path';
+import { readDraft, removeDraft, writeDraft, type PersistOptions } from './persist';
+import type { Resolver, ValidationContext } from './resolvers';
+import type { RegisterOptions } from './rules';
+
+export type {
+  ErrorOption,
+  FieldArrayUpdate,
+  FormErrors,
+  FormState,
+  FormStateListener,
+  ResetOptions,
+  ServerErrors,
+  UnregisterOptions,
+  WatchListener,
+} from './createFormControl';
 
 /**
  * FormFieldValue type is used to define the possible types of form field values.
  */
-export type FormFieldValue = string | number | boolean | string[] | number[] | File | FileList | null | undefined;
+export type FormFieldValue =
+  | string
+  | number
+  | boolean
+  | string[]
+  | number[]
+  | Date
+  | File
+  | FileList
+  | null
+  | undefined;
 
 /**
- * FormValues type is used to define the structure of form values.
+ * FormValues type is used to define the structure of form values, including nested objects.
  */
-export type FormValues = Record<string, FormFieldValue>;
+export type FormValues = { [key: string]: FormFieldValue | FormValues | FormValues[] };
 
 /**
  * FormInputElement type is used to define the possible types of form input elements.
@@ -23,26 +77,113 @@ export type FormInputEvent = React.ChangeEvent<FormInputElement> | FormFieldValu
 /**
  * UseFormOptions interface is used to define the options for useForm hook.
  */
-export interface UseFormOptions<T extends Record<string, FormFieldValue>> {
-  defaultValues?: Partial<T>;
-  validator?: (values: T) => Partial<Record<keyof T, string>> | Promise<Partial<Record<keyof T, string>>>;
+export interface UseFormOptions<T, TSubmit = T> {
+  defaultValues?: Partial<T> | (() => Promise<Partial<T>>);
+  values?: Partial<T>;
+  resetOptions?: ResetOptions;
+  validator?: (values: T, context: ValidationContext) => FieldErrors<T> | Promise<FieldErrors<T>>;
+  resolver?: Resolver<T, TSubmit>;
   controlled?: boolean;
   debug?: boolean;
-  validateOn?: 'onChange' | 'onBlur' | 'onSubmit';
+  validateOn?: ValidationMode;
+  reValidateMode?: ValidationMode;
+  validationDebounce?: number | Partial<Record<FieldPath<T>, number>>;
+  shouldUnregister?: boolean;
+  shouldFocusError?: boolean;
+  ariaAttributes?: boolean;
+  nativeValidation?: boolean | NativeValidationOptions;
+  shouldUseNativeValidation?: boolean;
+  persist?: PersistOptions<T>;
+  history?: boolean | HistoryOptions;
+}
+
+const nativeValidityKeys = [
+  'valueMissing',
+  'typeMismatch',
+  'patternMismatch',
+  'tooLong',
+  'tooShort',
+  'rangeUnderflow',
+  'rangeOverflow',
+  'stepMismatch',
+  'badInput',
+] as const;
+
+/**
+ * NativeValidityKey type is used to define the ValidityState flags read by native validation.
+ */
+export type NativeValidityKey = (typeof nativeValidityKeys)[number];
+
+/**
+ * NativeValidationOptions interface is used to define the messages used for the browser's constraint validation.
+ * Flags without a message fall back to the browser's own `validationMessage`.
+ */
+export interface NativeValidationOptions {
+  messages?: Partial<Record<NativeValidityKey, string | ((element: FormInputElement) => string)>>;
+}
+
+/**
+ * HistoryOptions interface is used to define how many undo steps are kept and how changes are grouped into steps.
+ * Changes to the same field less than `coalesceDelay` milliseconds apart form a single step.
+ */
+export interface HistoryOptions {
+  limit?: number;
+  coalesceDelay?: number;
+}
+
+/**
+ * SetFocusOptions interface is used to define how setFocus focuses a field.
+ */
+export interface SetFocusOptions {
+  shouldSelect?: boolean;
+}
+
+/**
+ * WatchFunction type is used to define watch, which reads field values and re-renders the form when they change.
+ */
+export type WatchFunction<T> = {
+  (): T;
+  <K extends FieldPath<T>>(name: K): FieldPathValue<T, K>;
+  <const K extends readonly FieldPath<T>[]>(names: K): { -readonly [I in keyof K]: FieldPathValue<T, K[I] & string> };
+};
+
+/**
+ * FieldElement type is used to define the element or component instance that a Controller field ref points to.
+ */
+export type FieldElement = { focus?: () => void };
+
+/**
+ * FormControl interface is used to define the form internals shared with companion hooks like useFieldArray.
+ */
+export interface FormControl<T> {
+  getValues: () => T;
+  register: UseFormReturn<T>['register'];
+  setValue: UseFormReturn<T>['setValue'];
+  unregister: UseFormReturn<T>['unregister'];
+  setFocus: UseFormReturn<T>['setFocus'];
+  setFieldElement: (name: FieldPath<T>, element: FieldElement | null) => void;
+  subscribe: (listener: WatchListener<T>) => () => void;
+  getFormState: () => FormState<T>;
+  subscribeFormState: (listener: FormStateListener<T>) => () => void;
+  updateFieldArray: (name: FieldArrayPath<T>, update: FieldArrayUpdate) => void;
+  setFormElement: (element: HTMLFormElement | null) => void;
+  getHistoryState: () => { canUndo: boolean; canRedo: boolean };
+  subscribeHistory: (listener: () => void) => () => void;
 }
 
 /**
  * UseFormReturn interface is used to define the return type of useForm hook.
  */
-export interface UseFormReturn<T> {
+export interface UseFormReturn<T, TSubmit = T> extends FormState<T> {
   values: T;
-  errors: Partial<Record<keyof T, string>>;
-  touched: Partial<Record<keyof T, boolean>>;
+  formState: FormState<T>;
   handleSubmit: (
-    onSubmit: (values: T) => void | Promise<void>,
+    onSubmit: (values: TSubmit) => void | Promise<void>,
+    onInvalid?: (errors: FormErrors<T>) => void | Promise<void>,
   ) => (e: React.FormEvent<HTMLFormElement>) => Promise<void>;
-  register: <K extends keyof T>(
+  register: <K extends FieldPath<T>>(
     name: K,
+    options?: RegisterOptions<FieldPathValue<T, K>, T>,
   ) => {
     name: K;
     defaultValue?: string;
@@ -50,72 +191,329 @@ export interface UseFormReturn<T> {
     onBlur: () => void;
     value?: string;
     checked?: boolean;
+    'aria-invalid'?: boolean;
+    'aria-describedby'?: string;
   };
-  setValue: <K extends keyof T>(name: K, value: T[K]) => void;
-  reset: () => void;
-  isDirty: boolean;
-  isValid: boolean;
+  getErrorProps: (name: FieldPath<T>) => { id: string };
+  setValue: <K extends FieldPath<T>>(name: K, value: FieldPathValue<T, K>) => void;
+  trigger: (name?: FieldPath<T> | FieldPath<T>[]) => Promise<boolean>;
+  watch: WatchFunction<T>;
+  subscribe: (listener: WatchListener<T>) => () => void;
+  setError: (name: FieldPath<T> | 'root', error: ErrorOption) => void;
+  clearErrors: (names?: FieldPath<T> | 'root' | Array<FieldPath<T> | 'root'>) => void;
+  setServerErrors: (errors: ServerErrors) => void;
+  unregister: (name: FieldPath<T> | FieldPath<T>[], options?: UnregisterOptions) => void;
+  setFocus: (name: FieldPath<T>, options?: SetFocusOptions) => void;
+  reset: (values?: Partial<T>, options?: ResetOptions) => void;
+  getDirtyValues: () => Partial<T>;
+  undo: () => void;
+  redo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+  clearHistory: () => void;
+  control: FormControl<T>;
+}
+
+/**
+ * defineFormStateGetters function adds a getter for every form state key to the target and records the keys read.
+ * Components use the recorded keys to skip re-renders caused by state they never looked at.
+ */
+export function defineFormStateGetters<T, O extends object>(
+  target: O,
+  getFormState: () => FormState<T>,
+  readKeys: Set<keyof FormState<T>>,
+): O & FormState<T> {
+  for (const key of formStateKeys) {
+    Object.defineProperty(target, key, {
+      enumerable: true,
+      get: () => {
+        readKeys.add(key);
+        return getFormState()[key];
+      },
+    });
+  }
+
+  return target as O & FormState<T>;
+}
+
+/**
+ * isSyntheticEvent function checks whether a value is a React event, which reset receives when used as onClick.
+ */
+function isSyntheticEvent(value: unknown): value is React.SyntheticEvent {
+  return typeof value === 'object' && value !== null && 'nativeEvent' in value;
+}
+
+/**
+ * readFieldInput function reads what the store needs from an input element to derive the field value.
+ */
+function readFieldInput(target: FormInputElement): FieldInput {
+  const { type, value } = target;
+
+  if (target instanceof HTMLSelectElement) {
+    return { type, value, selectedValues: Array.from(target.selectedOptions, (option) => option.value) };
+  }
+
+  if (target instanceof HTMLInputElement) {
+    return { type, value, checked: target.checked, files: target.files, valueAsDate: target.valueAsDate };
+  }
+
+  return { type, value };
+}
+
+/**
+ * toInputValue function formats a field value for display in a text-like input, including Date values.
+ */
+function toInputValue(value: unknown, inputType: string): string {
+  if (value === undefined || value === null) {
+    return '';
+  }
+
+  if (value instanceof Date) {
+    if (Number.isNaN(value.getTime())) {
+      return '';
+    }
+
+    const isoValue = value.toISOString();
+
+    switch (inputType) {
+      case 'date':
+        return isoValue.slice(0, 10);
+      case 'month':
+        return isoValue.slice(0, 7);
+      case 'time':
+        return isoValue.slice(11, 16);
+      case 'datetime-local':
+        return new Date(value.getTime() - value.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+      default:
+        return isoValue;
+    }
+  }
+
+  return String(value);
+}
+
+/**
+ * writeElementValue function writes a field value into a registered DOM element.
+ */
+function writeElementValue(element: FormInputElement, value: unknown) {
+  if (element instanceof HTMLInputElement) {
+    if (element.type === 'checkbox' || element.type === 'radio') {
+      if (Array.isArray(value)) {
+        element.checked = value.map(String).includes(element.value);
+      } else if (typeof value === 'boolean') {
+        element.checked = value;
+      } else {
+        element.checked = value !== undefined && value !== null && element.value === String(value);
+      }
+    } else if (element.type === 'file') {
+      if (value === undefined || value === null) {
+        element.value = '';
+      }
+    } else {
+      element.value = toInputValue(value, element.type);
+    }
+  } else if (element instanceof HTMLSelectElement && element.multiple) {
+    const selectedValues = Array.isArray(value) ? value.map(String) : [];
+    Array.from(element.options).forEach((option) => {
+      option.selected = selectedValues.includes(option.value);
+    });
+  } else {
+    element.value = toInputValue(value, element.type);
+  }
+}
+
+/**
+ * isRemovedRowPath function checks whether a path points into an array row that no longer exists in the values.
+ */
+function isRemovedRowPath(values: unknown, name: string): boolean {
+  const keys = parsePath(name);
+
+  return keys.some((key, index) => {
+    const parent = getPath(values, keys.slice(0, index).join('.'));
+    return Array.isArray(parent) && Number(key) >= parent.length;
+  });
+}
+
+/**
+ * sortByDocumentOrder function sorts DOM elements in the order they appear in the document.
+ * Component instances that aren't DOM nodes, like some Controller refs, keep their order after them.
+ */
+function sortByDocumentOrder(elements: FieldElement[]): FieldElement[] {
+  const nodes = elements.filter((element): element is FieldElement & Node => element instanceof Node);
+  const others = elements.filter((element) => !(element instanceof Node));
+
+  nodes.sort((a, b) => (a.compareDocumentPosition(b) & Node.DOCUMENT_POSITION_FOLLOWING ? -1 : 1));
+
+  return [...nodes, ...others];
+}
+
+/**
+ * focusElement function focuses a field element, optionally selecting its text and scrolling it into view.
+ */
+function focusElement(element: FieldElement, { shouldSelect = false, shouldScroll = false } = {}) {
+  element.focus?.();
+
+  if (shouldScroll && element instanceof Element) {
+    element.scrollIntoView({ block: 'center' });
+  }
+
+  if (shouldSelect && (element instanceof HTMLInputElement || element instanceof HTMLTextAreaElement)) {
+    element.select();
+  }
+}
+
+/**
+ * getNativeValidationMessage function returns the message for the first failing constraint of an element.
+ */
+function getNativeValidationMessage(
+  element: FormInputElement,
+  messages: NativeValidationOptions['messages'] = {},
+): string | undefined {
+  const failedKey = element.willValidate ? nativeValidityKeys.find((key) => element.validity[key]) : undefined;
+
+  if (!failedKey) {
+    return undefined;
+  }
+
+  const message = messages[failedKey];
+
+  return typeof message === 'function' ? message(element) : (message ?? element.validationMessage);
 }
 
 /**
  * useForm function is a custom hook for handling form state and validation.
+ * It binds a store created by createFormControl to React and the DOM elements registered with it.
  */
-export function useForm<TValues>({
+export function useForm<TValues, TSubmit = TValues>({
   defaultValues,
+  values: externalValues,
+  resetOptions,
   validator,
+  resolver,
   controlled = false,
   debug = false,
   validateOn = 'onSubmit',
-}: {
-  defaultValues?: Partial<TValues>;
-  validator?: (values: TValues) => Partial<Record<keyof TValues, string>>;
-  controlled?: boolean;
-  debug?: boolean;
-  validateOn?: 'onChange' | 'onBlur' | 'onSubmit';
-}): UseFormReturn<TValues> {
+  reValidateMode = 'onChange',
+  validationDebounce,
+  shouldUnregister = false,
+  shouldFocusError = true,
+  ariaAttributes = false,
+  nativeValidation = false,
+  shouldUseNativeValidation = false,
+  persist,
+  history = false,
+}: UseFormOptions<TValues, TSubmit>): UseFormReturn<TValues, TSubmit> {
   type InferredT = TValues;
 
-  const { defaultValues: initialDefaultValues = {} as Partial<InferredT> } = { defaultValues };
+  const loadDefaultValuesRef = React.useRef(typeof defaultValues === 'function' ? defaultValues : undefined);
 
-  const formRef = React.useRef<Partial<InferredT>>(initialDefaultValues);
-  const defaultValuesRef = React.useRef(initialDefaultValues);
+  // Synchronous storages restore the draft before the first render, async ones once it has loaded
+  const [restoredDraft] = React.useState(() => (persist ? readDraft(persist) : undefined));
+  const persistRef = React.useRef(persist);
 
-  const registeredFieldsRef = React.useRef<Set<keyof InferredT>>(new Set());
-  const modifiedFieldsRef = React.useRef<Set<keyof InferredT>>(new Set());
+  const formId = React.useId();
+  const formElementRef = React.useRef<HTMLFormElement | null>(null);
+  const isResettingElementRef = React.useRef(false);
+  const fieldElementsRef = React.useRef<Map<FieldPath<InferredT>, FieldElement>>(new Map());
+  const registeredFieldsRef = React.useRef<Set<FieldPath<InferredT>>>(new Set());
+  const registeredElementsRef = React.useRef<Map<FormInputElement, FieldPath<InferredT>>>(new Map());
 
-  const [values, setValues] = React.useState<Partial<InferredT>>(initialDefaultValues);
-  const [errors, setErrors] = React.useState<Partial<Record<keyof InferredT, string>>>({});
-  const [touched, setTouched] = React.useState<Partial<Record<keyof InferredT, boolean>>>({});
-  const [isDirty, setIsDirty] = React.useState(false);
+  const watchedNamesRef = React.useRef<Set<FieldPath<InferredT>>>(new Set());
+  const isWatchingAllRef = React.useRef(false);
+  const readFormStateKeysRef = React.useRef<Set<keyof FormState<InferredT>>>(new Set());
 
-  const getCurrentValues = React.useCallback((): InferredT => {
-    const currentFormValues = controlled ? values : formRef.current;
-    const result = {} as Record<keyof InferredT, unknown>;
+  const [, setRevision] = React.useState(0);
 
-    for (const key in defaultValuesRef.current) {
-      if (Object.prototype.hasOwnProperty.call(defaultValuesRef.current, key)) {
-        const typedKey = key as keyof InferredT;
-        result[typedKey] = (defaultValuesRef.current as Partial<InferredT>)[typedKey];
-      }
-    }
+  const historyRef = React.useRef<{ past: InferredT[]; future: InferredT[] }>({ past: [], future: [] });
+  const lastHistoryChangeRef = React.useRef<{ name?: FieldPath<InferredT>; time: number } | undefined>(undefined);
+  const historyFlagsRef = React.useRef({ canUndo: false, canRedo: false });
+  const historyListenersRef = React.useRef<Set<() => void>>(new Set());
+  const [historyFlags, setHistoryFlags] = React.useState(historyFlagsRef.current);
+  const isHistoryEnabled = history !== false;
+  const historyLimit = (typeof history === 'object' ? history.limit : undefined) ?? 100;
+  const historyCoalesceDelay = (typeof history === 'object' ? history.coalesceDelay : undefined) ?? 500;
 
-    for (const key of modifiedFieldsRef.current) {
-      const typedKey = key as keyof InferredT;
-      result[typedKey] = currentFormValues[typedKey];
-    }
+  const getNativeErrors = React.useCallback(
+    (names?: FieldPath<InferredT>[]) => {
+      const messages = typeof nativeValidation === 'object' ? nativeValidation.messages : undefined;
+      let nativeErrors: FieldErrors<InferredT> = {};
+
+      registeredElementsRef.current.forEach((name, element) => {
+        if (!element.isConnected || (names && !names.includes(name)) || getPath(nativeErrors, name) !== undefined) {
+          return;
+        }
+
+        // Our own messages are set as custom validity, which must not be read back as a native error
+        if (shouldUseNativeValidation) {
+          element.setCustomValidity('');
+        }
+
+        const message = getNativeValidationMessage(element, messages);
+
+        if (message) {
+          nativeErrors = setPath(nativeErrors, name, message);
+        }
+      });
+
+      return nativeErrors;
+    },
+    [nativeValidation, shouldUseNativeValidation],
+  );
 
-    for (const key in currentFormValues) {
-      if (
-        Object.prototype.hasOwnProperty.call(currentFormValues, key) &&
-        !modifiedFieldsRef.current.has(key as keyof InferredT)
-      ) {
-        const typedKey = key as keyof InferredT;
-        result[typedKey] = currentFormValues[typedKey];
+  // Mirror the errors in the browser's constraint validation, so native and JavaScript validation agree
+  const mirrorErrors = React.useCallback(
+    (errors: FormErrors<InferredT>) => {
+      if (!shouldUseNativeValidation) {
+        return;
       }
-    }
 
-    return result as InferredT;
-  }, [controlled, values]);
+      registeredElementsRef.current.forEach((name, element) => {
+        const message = getPath(errors, name);
+        element.setCustomValidity(typeof message === 'string' ? message : '');
+      });
+    },
+    [shouldUseNativeValidation],
+  );
+
+  const storeOptions: FormStoreOptions<InferredT, TSubmit> = {
+    validator,
+    resolver,
+    validateOn,
+    reValidateMode,
+    validationDebounce,
+    getNativeErrors: nativeValidation ? getNativeErrors : undefined,
+    onErrors: mirrorErrors,
+  };
+
+  const [store] = React.useState(() => {
+    const initialDefaultValues = (externalValues ??
+      (typeof defaultValues === 'function' ? undefined : defaultValues) ??
+      {}) as Partial<InferredT>;
+
+    return createFormControl<InferredT, TSubmit>({
+      ...storeOptions,
+      defaultValues: initialDefaultValues,
+      values:
+        restoredDraft && !(restoredDraft instanceof Promise)
+          ? mergeValues(initialDefaultValues, restoredDraft)
+          : undefined,
+      isLoading: loadDefaultValuesRef.current !== undefined || restoredDraft instanceof Promise,
+    });
+  });
+
+  // The store always uses the options of the latest render, like an inline validator
+  React.useEffect(() => {
+    store.setOptions(storeOptions);
+  });
+
+  React.useEffect(() => () => store.destroy(), [store]);
+
+  // Controlled forms re-render on every change, uncontrolled ones only for the values they watch
+  const subscribeValues = React.useCallback(
+    (onStoreChange: () => void) => (controlled ? store.subscribe(onStoreChange) : () => undefined),
+    [controlled, store],
+  );
+  const values = React.useSyncExternalStore(subscribeValues, store.getValues, store.getValues);
 
   const debugFormValues = React.useCallback(
     (label: string) => {
@@ -124,118 +522,201 @@ export function useForm<TValues>({
       }
 
       console.group(`Form Debug: ${label}`);
-      console.log('Current Values:', getCurrentValues());
-      console.log('Modified Fields:', Array.from(modifiedFieldsRef.current));
+      console.log('Current Values:', store.getValues());
       console.log('Registered Fields:', Array.from(registeredFieldsRef.current));
-      console.log('Raw Form Values:', controlled ? values : formRef.current);
-      console.log('Default Values:', defaultValuesRef.current);
+      console.log('Default Values:', store.getDefaultValues());
       console.groupEnd();
     },
-    [getCurrentValues, controlled, values, debug],
+    [debug, store],
+  );
+
+  // The form only re-renders for the fields read through watch, instead of on every change
+  React.useEffect(
+    () =>
+      store.subscribe((_, { name }) => {
+        const isWatched =
+          isWatchingAllRef.current ||
+          Array.from(watchedNamesRef.current).some((watchedName) => !name || isRelatedPath(watchedName, name));
+
+        if (isWatched) {
+          setRevision((revision) => revision + 1);
+        }
+      }),
+    [store],
   );
 
-  const validate = React.useCallback(async (): Promise<boolean> => {
-    if (!validator) {
-      return true;
+  // The component that owns the form only re-renders for the state it reads
+  React.useEffect(
+    () =>
+      store.subscribeFormState((state, prevState) => {
+        if (Array.from(readFormStateKeysRef.current).some((key) => state[key] !== prevState[key])) {
+          setRevision((revision) => revision + 1);
+        }
+      }),
+    [store],
+  );
+
+  const syncHistoryFlags = React.useCallback(() => {
+    const canUndo = historyRef.current.past.length > 0;
+    const canRedo = historyRef.current.future.length > 0;
+
+    if (historyFlagsRef.current.canUndo === canUndo && historyFlagsRef.current.canRedo === canRedo) {
+      return;
     }
 
-    const currentValues = getCurrentValues();
-    const validationErrors = await validator(currentValues as TValues);
-    const hasErrors = Object.keys(validationErrors).length > 0;
+    historyFlagsRef.current = { canUndo, canRedo };
+    setHistoryFlags(historyFlagsRef.current);
+    historyListenersRef.current.forEach((listener) => listener());
+  }, []);
 
-    setErrors(validationErrors as Partial<Record<keyof InferredT, string>>);
+  const getHistoryState = React.useCallback(() => historyFlagsRef.current, []);
 
-    return !hasErrors;
-  }, [getCurrentValues, validator]);
+  const subscribeHistory = React.useCallback((listener: () => void) => {
+    historyListenersRef.current.add(listener);
 
-  const updateFormValue = React.useCallback(
-    <K extends keyof InferredT>(name: K, value: InferredT[K]) => {
-      modifiedFieldsRef.current.add(name);
+    return () => {
+      historyListenersRef.current.delete(listener);
+    };
+  }, []);
 
-      if (controlled) {
-        setValues((prev) => ({ ...prev, [name]: value }));
-      } else {
-        formRef.current = { ...formRef.current, [name]: value };
+  // Called before a change, so the step holds the values the change is undone to
+  const recordHistory = React.useCallback(
+    (name?: FieldPath<InferredT>) => {
+      if (!isHistoryEnabled) {
+        return;
       }
 
-      setIsDirty(true);
-      debugFormValues(`After Update: ${String(name)}`);
-      if (validateOn === 'onChange') {
-        validate();
+      const now = Date.now();
+      const lastChange = lastHistoryChangeRef.current;
+      lastHistoryChangeRef.current = { name, time: now };
+
+      // Typing into the same field keeps extending the current step
+      if (name !== undefined && lastChange?.name === name && now - lastChange.time < historyCoalesceDelay) {
+        return;
       }
+
+      const past = [...historyRef.current.past, store.getValues()];
+
+      historyRef.current = { past: past.slice(past.length - Math.min(historyLimit, past.length)), future: [] };
+      syncHistoryFlags();
     },
-    [controlled, debugFormValues, validate, validateOn],
+    [historyCoalesceDelay, historyLimit, isHistoryEnabled, store, syncHistoryFlags],
   );
 
-  const handleInputChange = React.useCallback(
-    (name: keyof InferredT, e: React.ChangeEvent<HTMLInputElement>) => {
-      if (e === null || e === undefined || !e.target) {
-        updateFormValue(name, e as InferredT[typeof name]);
-        return;
-      }
+  const applyHistoryValues = React.useCallback(
+    (nextValues: InferredT) => {
+      store.setValues(nextValues);
 
-      modifiedFieldsRef.current.add(name);
+      registeredElementsRef.current.forEach((name, element) => {
+        if (element.isConnected) {
+          writeElementValue(element, getPath(nextValues, name));
+        }
+      });
 
-      const target = e.currentTarget;
-      const inputType = target.type;
-      const currentFieldValue = getCurrentValues()[name];
-      let newValue: unknown;
+      // Field array rows and values read during render follow the restored values
+      setRevision((revision) => revision + 1);
+    },
+    [store],
+  );
 
-      if (inputType === 'checkbox') {
-        const defaultValue = defaultValuesRef.current[name as keyof typeof defaultValuesRef.current];
-        const isCheckboxGroup = Array.isArray(defaultValue) || Array.isArray(currentFieldValue);
+  const undo = React.useCallback(() => {
+    const { past, future } = historyRef.current;
+    const prevValues = past[past.length - 1];
 
-        if (isCheckboxGroup) {
-          const { value, checked } = target as HTMLInputElement;
-          let currentArray: unknown[] = [];
+    if (prevValues === undefined) {
+      return;
+    }
 
-          if (Array.isArray(currentFieldValue)) {
-            currentArray = [...currentFieldValue];
-          } else if (Array.isArray(defaultValue)) {
-            currentArray = [...defaultValue];
-          }
+    historyRef.current = { past: past.slice(0, -1), future: [store.getValues(), ...future] };
+    lastHistoryChangeRef.current = undefined;
+    applyHistoryValues(prevValues);
+    syncHistoryFlags();
+  }, [applyHistoryValues, store, syncHistoryFlags]);
 
-          if (checked) {
-            if (!currentArray.includes(value)) {
-              currentArray.push(value);
-            }
-          } else {
-            currentArray = currentArray.filter((v) => v !== value);
+  const redo = React.useCallback(() => {
+    const { past, future } = historyRef.current;
+    const [nextValues, ...rest] = future;
+
+    if (nextValues === undefined) {
+      return;
+    }
+
+    historyRef.current = { past: [...past, store.getValues()], future: rest };
+    lastHistoryChangeRef.current = undefined;
+    applyHistoryValues(nextValues);
+    syncHistoryFlags();
+  }, [applyHistoryValues, store, syncHistoryFlags]);
+
+  const clearHistory = React.useCallback(() => {
+    historyRef.current = { past: [], future: [] };
+    lastHistoryChangeRef.current = undefined;
+    syncHistoryFlags();
+  }, [syncHistoryFlags]);
+
+  const prepareFieldChange = React.useCallback(
+    (name: FieldPath<InferredT>) => {
+      recordHistory(name);
+
+      // A custom validity message would keep blocking native submits until validation runs again
+      if (shouldUseNativeValidation) {
+        registeredElementsRef.current.forEach((elementName, element) => {
+          if (elementName === name) {
+            element.setCustomValidity('');
           }
+        });
+      }
+    },
+    [recordHistory, shouldUseNativeValidation],
+  );
 
-          newValue = currentArray;
-        } else {
-          newValue = (target as HTMLInputElement).checked;
-        }
-      } else if (inputType === 'radio') {
-        newValue = target.value;
-      } else if (inputType === 'select-multiple' && target instanceof HTMLSelectElement) {
-        newValue = Array.from(target.options)
-          .filter((option) => option.selected)
-          .map((option) => option.value);
-      } else {
-        newValue = target.value;
+  const updateFormValue = React.useCallback(
+    <K extends FieldPath<InferredT>>(name: K, value: FieldPathValue<InferredT, K>) => {
+      prepareFieldChange(name);
+      store.setValue(name, value);
+      debugFormValues(`After Update: ${String(name)}`);
+    },
+    [debugFormValues, prepareFieldChange, store],
+  );
+
+  const updateFieldArray = React.useCallback(
+    (name: FieldArrayPath<InferredT>, update: FieldArrayUpdate) => {
+      // Every row operation is a step of its own
+      recordHistory();
+      store.updateFieldArray(name, update);
+      debugFormValues(`After Field Array Update: ${String(name)}`);
+    },
+    [debugFormValues, recordHistory, store],
+  );
+
+  const handleInputChange = React.useCallback(
+    (name: FieldPath<InferredT>, e: React.ChangeEvent<HTMLInputElement>) => {
+      if (e === null || e === undefined || !e.target) {
+        updateFormValue(name, e as FieldPathValue<InferredT, typeof name>);
+        return;
       }
 
-      updateFormValue(name, newValue as InferredT[keyof InferredT]);
+      prepareFieldChange(name);
+      store.setValueFromInput(name, readFieldInput(e.currentTarget));
+      debugFormValues(`After Update: ${String(name)}`);
     },
-    [getCurrentValues, updateFormValue],
+    [debugFormValues, prepareFieldChange, store, updateFormValue],
   );
 
   const setupInputElement = React.useCallback(
-    <K extends keyof InferredT>(element: FormInputElement | null, name: K, currentValue: unknown) => {
+    <K extends FieldPath<InferredT>>(element: FormInputElement | null, name: K, currentValue: unknown) => {
       if (!element) {
         return;
       }
 
       registeredFieldsRef.current.add(name);
+      registeredElementsRef.current.set(element, name);
 
       if (element instanceof HTMLInputElement) {
         if (element.type !== 'checkbox' && element.type !== 'radio' && element.type !== 'file') {
-          element.defaultValue = currentValue !== undefined ? String(currentValue) : '';
+          element.defaultValue = toInputValue(currentValue, element.type);
         }
       } else if (element instanceof HTMLSelectElement || element instanceof HTMLTextAreaElement) {
-        element.value = currentValue !== undefined ? String(currentValue) : '';
+        element.value = toInputValue(currentValue, element.type);
       }
 
       setTimeout(() => {
@@ -259,113 +740,435 @@ export function useForm<TValues>({
     [],
   );
 
+  const unregister = React.useCallback(
+    (names: FieldPath<InferredT> | FieldPath<InferredT>[], options?: UnregisterOptions) => {
+      const fieldNames = Array.isArray(names) ? names : [names];
+
+      for (const name of fieldNames) {
+        registeredFieldsRef.current.delete(name);
+        fieldElementsRef.current.delete(name);
+        registeredElementsRef.current.forEach((elementName, element) => {
+          if (elementName === name) {
+            registeredElementsRef.current.delete(element);
+          }
+        });
+      }
+
+      // Undo must not bring back the values of fields that are gone
+      if (!options?.keepValue) {
+        const unsetFields = (snapshot: InferredT) =>
+          fieldNames.reduce((result, name) => unsetPath(result, name), snapshot);
+        const { past, future } = historyRef.current;
+
+        historyRef.current = { past: past.map(unsetFields), future: future.map(unsetFields) };
+      }
+
+      store.unregister(fieldNames, options);
+      debugFormValues(`After Unregister: ${fieldNames.join(', ')}`);
+    },
+    [debugFormValues, store],
+  );
+
+  const unregisterIfDetached = React.useCallback(
+    (name: FieldPath<InferredT>) => {
+      if (!(store.getFieldRules(name)?.shouldUnregister ?? shouldUnregister)) {
+        return;
+      }
+
+      // Refs are also detached on every re-render, so wait until React has attached the new ones
+      queueMicrotask(() => {
+        const isAttached =
+          fieldElementsRef.current.has(name) ||
+          Array.from(registeredElementsRef.current).some(
+            ([element, elementName]) => elementName === name && element.isConnected,
+          );
+
+        // Rows removed by a field array are already gone. A hidden field keeps its default value,
+        // so it comes back with it when shown again or after a reset
+        if (!isAttached && !isRemovedRowPath(store.getValues(), name)) {
+          unregister(name, { keepDefaultValue: true });
+        }
+      });
+    },
+    [shouldUnregister, store, unregister],
+  );
+
+  const getErrorProps = React.useCallback(
+    (name: FieldPath<InferredT>) => ({ id: `${formId}-${name}-error` }),
+    [formId],
+  );
+
+  const getAriaProps = React.useCallback(
+    (name: FieldPath<InferredT>) => {
+      if (!ariaAttributes) {
+        return {};
+      }
+
+      // The attributes depend on the errors, so the component calling register must re-render when they change
+      readFormStateKeysRef.current.add('errors');
+
+      const isInvalid = typeof getPath(store.getFormState().errors, name) === 'string';
+
+      return {
+        'aria-invalid': isInvalid,
+        'aria-describedby': isInvalid ? getErrorProps(name).id : undefined,
+      };
+    },
+    [ariaAttributes, getErrorProps, store],
+  );
+
   const register = React.useCallback(
-    <K extends keyof InferredT>(name: K) => {
-      const currentValue = getCurrentValues()[name];
+    <K extends FieldPath<InferredT>>(name: K, options?: RegisterOptions<FieldPathValue<InferredT, K>, InferredT>) => {
+      const currentValue = getPath(store.getValues(), name);
+
+      if (options) {
+        store.setFieldRules(name, options as RegisterOptions<unknown, InferredT>);
+      }
 
       const props = {
+        ...getAriaProps(name),
         name,
-        onChange: (e: React.ChangeEvent<HTMLInputElement>) => handleInputChange(name, e),
-        onBlur: () => {
-          setTouched((prev) => ({ ...prev, [name]: true }));
-          if (validateOn === 'onBlur') {
-            validate();
+        onChange: (e: FormInputEvent) => handleInputChange(name, e as React.ChangeEvent<HTMLInputElement>),
+        onBlur: () => store.touch(name),
+        ref: (element: FormInputElement | null) => {
+          if (element) {
+            setupInputElement(element, name, currentValue);
+          } else {
+            unregisterIfDetached(name);
           }
         },
-        ref: (element: FormInputElement | null) => setupInputElement(element, name, currentValue),
       };
 
       return props;
     },
-    [getCurrentValues, handleInputChange, setupInputElement, validate, validateOn],
+    [getAriaProps, handleInputChange, setupInputElement, store, unregisterIfDetached],
   );
 
   const setValue = React.useCallback(
-    <K extends keyof InferredT>(name: K, value: InferredT[K]) => {
+    <K extends FieldPath<InferredT>>(name: K, value: FieldPathValue<InferredT, K>) => {
       updateFormValue(name, value);
     },
     [updateFormValue],
   );
 
-  const reset = React.useCallback(() => {
-    if (controlled) {
-      setValues(initialDefaultValues);
-    } else {
-      formRef.current = initialDefaultValues;
+  const getFieldElements = React.useCallback((isIncluded: (name: FieldPath<InferredT>) => boolean) => {
+    const elements: FieldElement[] = [];
+
+    registeredElementsRef.current.forEach((name, element) => {
+      if (element.isConnected && !element.disabled && isIncluded(name)) {
+        elements.push(element);
+      }
+    });
+
+    fieldElementsRef.current.forEach((element, name) => {
+      if (isIncluded(name)) {
+        elements.push(element);
+      }
+    });
+
+    return sortByDocumentOrder(elements);
+  }, []);
+
+  const setFocus = React.useCallback(
+    (name: FieldPath<InferredT>, options: SetFocusOptions = {}) => {
+      // Dot and bracket paths to the same field, like `items.0.qty` and `items[0].qty`, are treated alike
+      const [element] = getFieldElements((fieldName) => parsePath(fieldName).join('.') === parsePath(name).join('.'));
+
+      if (element) {
+        focusElement(element, { shouldSelect: options.shouldSelect });
+      }
+    },
+    [getFieldElements],
+  );
+
+  const watch = React.useCallback(
+    (name?: FieldPath<InferredT> | readonly FieldPath<InferredT>[]) => {
+      const currentValues = store.getValues();
+
+      if (name === undefined) {
+        isWatchingAllRef.current = true;
+        return currentValues;
+      }
+
+      const names = typeof name === 'string' ? [name] : name;
+      names.forEach((watchedName) => watchedNamesRef.current.add(watchedName));
+
+      return typeof name === 'string'
+        ? getPath(currentValues, name)
+        : names.map((watchedName) => getPath(currentValues, watchedName));
+    },
+    [store],
+  ) as WatchFunction<InferredT>;
+
+  const resetForm = React.useCallback(
+    (nextValues?: Partial<InferredT>, options?: ResetOptions) => {
+      // reset is often passed straight to onClick, in which case it receives the click event
+      const resetValues = isSyntheticEvent(nextValues) ? undefined : nextValues;
+
+      // Undoing past a reset would bring back values the form no longer starts from
+      clearHistory();
+      registeredFieldsRef.current.clear();
+      store.reset(resetValues, options);
+
+      // Inputs that aren't registered go back to their initial HTML values, registered ones are synced below
+      isResettingElementRef.current = true;
+      formElementRef.current?.reset();
+      isResettingElementRef.current = false;
+
+      const formValues = store.getValues();
+
+      // Only touch the elements registered by this form, so other forms on the page keep their values
+      registeredElementsRef.current.forEach((name, element) => {
+        if (!element.isConnected) {
+          registeredElementsRef.current.delete(element);
+          return;
+        }
+
+        writeElementValue(element, getPath(formValues, name));
+      });
+    },
+    [clearHistory, store],
+  );
+
+  const clearDraft = React.useCallback(() => {
+    if (persistRef.current) {
+      removeDraft(persistRef.current);
     }
+  }, []);
 
-    registeredFieldsRef.current.clear();
-    modifiedFieldsRef.current.clear();
+  const reset = React.useCallback(
+    (nextValues?: Partial<InferredT>, options?: ResetOptions) => {
+      clearDraft();
+      resetForm(nextValues, options);
+    },
+    [clearDraft, resetForm],
+  );
 
-    const formElements = document.querySelectorAll('form input, form select, form textarea');
-    formElements.forEach((element) => {
-      const input = element as HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement;
-      const name = input.name;
+  // Runs after every render, as the form element can change without this hook knowing about it
+  React.useEffect(() => {
+    const formElement =
+      formElementRef.current ??
+      Array.from(registeredElementsRef.current.keys()).find((element) => element.isConnected && element.form)?.form;
 
-      if (!name || !defaultValues || !(name in defaultValues)) {
-        return;
+    if (!formElement) {
+      return;
+    }
+
+    // A reset button or form.reset() only clears the inputs, the form state follows once they are cleared
+    const handleNativeReset = (e: Event) => {
+      if (!isResettingElementRef.current) {
+        setTimeout(() => {
+          if (!e.defaultPrevented) {
+            reset();
+          }
+        });
       }
+    };
+
+    formElement.addEventListener('reset', handleNativeReset);
+
+    return () => {
+      formElement.removeEventListener('reset', handleNativeReset);
+    };
+  });
+
+  React.useEffect(() => {
+    persistRef.current = persist;
+  });
+
+  // Drafts hold the dirty values only, so a form back at its defaults removes its draft
+  React.useEffect(
+    () =>
+      store.subscribe(() => {
+        const currentPersist = persistRef.current;
+
+        if (!currentPersist) {
+          return;
+        }
+
+        // Password and file inputs are only saved when listed in `include`
+        const sensitiveNames = Array.from(registeredElementsRef.current)
+          .filter(([element]) => element instanceof HTMLInputElement && ['password', 'file'].includes(element.type))
+          .map(([, name]) => name)
+          .filter((name) => !currentPersist.include?.includes(name));
 
-      const defaultValue = defaultValues[name as keyof typeof defaultValues];
-
-      if (input instanceof HTMLInputElement) {
-        if (input.type === 'checkbox' || input.type === 'radio') {
-          if (Array.isArray(defaultValue)) {
-            const valueArray = defaultValue as unknown[];
-            input.checked = valueArray.includes(input.value);
-          } else if (typeof defaultValue === 'boolean') {
-            input.checked = defaultValue;
-          } else if (input.type === 'radio') {
-            input.checked = input.value === String(defaultValue);
+        writeDraft(currentPersist, store.getDirtyValues(), sensitiveNames);
+      }),
+    [store],
+  );
+
+  React.useEffect(() => {
+    const loadDefaultValues = loadDefaultValuesRef.current;
+
+    if (!loadDefaultValues && !(restoredDraft instanceof Promise)) {
+      return;
+    }
+
+    let isCancelled = false;
+
+    Promise.all([loadDefaultValues?.(), restoredDraft]).then(
+      ([loadedValues, draft]) => {
+        if (!isCancelled) {
+          loadDefaultValuesRef.current = undefined;
+
+          if (loadedValues) {
+            resetForm(loadedValues);
+          }
+
+          // The draft goes on top of the loaded defaults, so its fields show up as dirty
+          if (draft) {
+            resetForm(mergeValues(store.getDefaultValues(), draft), { keepDefaultValues: true });
           }
-        } else if (input.type !== 'file') {
-          input.value = defaultValue?.toString() || '';
+
+          store.setLoading(false);
         }
-      } else if (input instanceof HTMLSelectElement) {
-        if (input.multiple && Array.isArray(defaultValue)) {
-          const valueArray = defaultValue as unknown[];
-          Array.from(input.options).forEach((option) => {
-            option.selected = valueArray.includes(option.value);
-          });
-        } else {
-          input.value = defaultValue?.toString() || '';
+      },
+      (error: unknown) => {
+        if (!isCancelled) {
+          loadDefaultValuesRef.current = undefined;
+          store.setError('root', { message: error instanceof Error ? error.message : String(error) });
+          store.setLoading(false);
         }
-      } else {
-        input.value = defaultValue?.toString() || '';
-      }
-    });
+      },
+    );
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [resetForm, restoredDraft, store]);
+
+  const syncedValuesRef = React.useRef(externalValues);
+  const { keepDirty, keepErrors, keepTouched, keepDefaultValues } = resetOptions ?? {};
+
+  React.useEffect(() => {
+    if (externalValues === undefined || isDeepEqual(externalValues, syncedValuesRef.current)) {
+      return;
+    }
 
-    setErrors({});
-    setTouched({});
-    setIsDirty(false);
-  }, [controlled, defaultValues, initialDefaultValues]);
+    syncedValuesRef.current = externalValues;
+    resetForm(externalValues, { keepDirty, keepErrors, keepTouched, keepDefaultValues });
+  }, [externalValues, keepDefaultValues, keepDirty, keepErrors, keepTouched, resetForm]);
 
   const handleSubmit = React.useCallback(
-    (onSubmit: (values: InferredT) => void | Promise<void>) => {
+    (
+      onSubmit: (values: TSubmit) => void | Promise<void>,
+      onInvalid?: (errors: FormErrors<InferredT>) => void | Promise<void>,
+    ) => {
       return async (e: React.FormEvent<HTMLFormElement>) => {
         e.preventDefault();
         debugFormValues('Before Submit');
 
-        const isValid = await validate();
-        if (isValid) {
-          const submissionValues = getCurrentValues();
-          debugFormValues('Submit Values');
-          await onSubmit(submissionValues);
-        }
+        // Like FormData, the values include the name and value of the button that submitted the form
+        const submitter = (e.nativeEvent as Partial<SubmitEvent> | undefined)?.submitter as
+          | HTMLButtonElement
+          | HTMLInputElement
+          | null
+          | undefined;
+
+        await store.submit(
+          async (submissionValues) => {
+            debugFormValues('Submit Values');
+            await onSubmit(
+              submitter?.name ? setPath(submissionValues, submitter.name, submitter.value) : submissionValues,
+            );
+            clearDraft();
+          },
+          async (currentErrors) => {
+            if (shouldFocusError || shouldUseNativeValidation) {
+              const [firstInvalidElement] = getFieldElements(
+                (name) => typeof getPath(currentErrors, name) === 'string',
+              );
+
+              // The browser shows its own bubble for the custom validity message and focuses the element
+              if (shouldUseNativeValidation && firstInvalidElement && 'reportValidity' in firstInvalidElement) {
+                (firstInvalidElement as FormInputElement).reportValidity();
+              } else if (firstInvalidElement) {
+                focusElement(firstInvalidElement, { shouldScroll: true });
+              }
+            }
+
+            await onInvalid?.(currentErrors);
+          },
+        );
       };
     },
-    [getCurrentValues, validate, debugFormValues, validateOn],
+    [clearDraft, debugFormValues, getFieldElements, shouldFocusError, shouldUseNativeValidation, store],
   );
 
-  return {
-    values: getCurrentValues(),
-    errors,
-    touched,
-    handleSubmit,
-    register,
-    setValue,
-    reset,
-    isDirty,
-    isValid: Object.keys(errors).length === 0,
-  } as UseFormReturn<InferredT>;
-}
\ No newline at end of file
+  const setFormElement = React.useCallback((element: HTMLFormElement | null) => {
+    formElementRef.current = element;
+  }, []);
+
+  const setFieldElement = React.useCallback(
+    (name: FieldPath<InferredT>, element: FieldElement | null) => {
+      if (element) {
+        fieldElementsRef.current.set(name, element);
+      } else {
+        fieldElementsRef.current.delete(name);
+        unregisterIfDetached(name);
+      }
+    },
+    [unregisterIfDetached],
+  );
+
+  const control = React.useMemo<FormControl<InferredT>>(
+    () => ({
+      getValues: store.getValues,
+      register,
+      setValue,
+      unregister,
+      setFocus,
+      setFieldElement,
+      subscribe: store.subscribe,
+      getFormState: store.getFormState,
+      subscribeFormState: store.subscribeFormState,
+      updateFieldArray,
+      setFormElement,
+      getHistoryState,
+      subscribeHistory,
+    }),
+    [
+      getHistoryState,
+      register,
+      setFieldElement,
+      setFormElement,
+      setFocus,
+      setValue,
+      store,
+      subscribeHistory,
+      unregister,
+      updateFieldArray,
+    ],
+  );
+
+  const readKeys = readFormStateKeysRef.current;
+
+  return defineFormStateGetters(
+    {
+      values,
+      formState: defineFormStateGetters({}, store.getFormState, readKeys),
+      handleSubmit,
+      register,
+      getErrorProps,
+      setValue,
+      trigger: store.trigger,
+      watch,
+      subscribe: store.subscribe,
+      setError: store.setError,
+      clearErrors: store.clearErrors,
+      setServerErrors: store.setServerErrors,
+      unregister,
+      setFocus,
+      reset,
+      getDirtyValues: store.getDirtyValues,
+      undo,
+      redo,
+      canUndo: historyFlags.canUndo,
+      canRedo: historyFlags.canRedo,
+      clearHistory,
+      control,
+    },
+    store.getFormState,
+    readKeys,
+  ) as UseFormReturn<InferredT, TSubmit>;
+}
@@ -0,0 +1,81 @@
+import React from 'react';
+import type { FormState, UseFormReturn } from './useForm';
+import { useFormState } from './useFormState';
+
+/**
+ * FormContextValue type is used to define what FormProvider shares: the methods of a form, without its state.
+ * Leaving the state out keeps the value stable, so providing it doesn't re-render every consumer.
+ */
+export type FormContextValue<T, TSubmit = T> = Omit<
+  UseFormReturn<T, TSubmit>,
+  keyof FormState<T> | 'values' | 'formState' | 'canUndo' | 'canRedo'
+>;
+
+/**
+ * FormContext is used to share the methods of a form with the components rendered by FormProvider.
+ */
+export const FormContext = React.createContext<FormContextValue<unknown, unknown> | null>(null);
+
+/**
+ * useFormContext function is a custom hook that returns the form provided by the closest FormProvider.
+ * State, values and undo flags are read through subscriptions, so a component only re-renders for what it reads.
+ */
+export function useFormContext<T, TSubmit = T>(): UseFormReturn<T, TSubmit> {
+  const form = React.useContext(FormContext) as FormContextValue<T, TSubmit> | null;
+
+  if (!form) {
+    throw new Error('useFormContext must be used inside a FormProvider');
+  }
+
+  const { control } = form;
+  const formState = useFormState({ control });
+  const readRef = React.useRef({ values: false, history: false });
+  const [, setRevision] = React.useState(0);
+
+  React.useEffect(() => {
+    const unsubscribeValues = control.subscribe(() => {
+      if (readRef.current.values) {
+        setRevision((revision) => revision + 1);
+      }
+    });
+    const unsubscribeHistory = control.subscribeHistory(() => {
+      if (readRef.current.history) {
+        setRevision((revision) => revision + 1);
+      }
+    });
+
+    return () => {
+      unsubscribeValues();
+      unsubscribeHistory();
+    };
+  }, [control]);
+
+  // Copy the getters themselves, as spreading would read every key and subscribe to all of them
+  return Object.defineProperties(
+    { ...form, formState },
+    {
+      ...Object.getOwnPropertyDescriptors(formState),
+      values: {
+        enumerable: true,
+        get: () => {
+          readRef.current.values = true;
+          return control.getValues();
+        },
+      },
+      canUndo: {
+        enumerable: true,
+        get: () => {
+          readRef.current.history = true;
+          return control.getHistoryState().canUndo;
+        },
+      },
+      canRedo: {
+        enumerable: true,
+        get: () => {
+          readRef.current.history = true;
+          return control.getHistoryState().canRedo;
+        },
+      },
+    },
+  ) as UseFormReturn<T, TSubmit>;
+}
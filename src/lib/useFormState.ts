@@ -0,0 +1,52 @@
+import React from 'react';
+import { getPath, isDeepEqual, type FieldPath } from './path';
+import { defineFormStateGetters, type FormControl, type FormState } from './useForm';
+
+/**
+ * UseFormStateOptions interface is used to define the options for useFormState hook.
+ * With `name`, errors, touched and dirty fields only re-render the component when those fields change.
+ */
+export interface UseFormStateOptions<T> {
+  control: FormControl<T>;
+  name?: FieldPath<T> | readonly FieldPath<T>[];
+}
+
+const fieldStateKeys: Array<keyof FormState<unknown>> = ['errors', 'touched', 'dirtyFields'];
+
+/**
+ * useFormState function is a custom hook that subscribes a component to the form state it reads.
+ * Keys that are never read, and fields outside `name`, don't cause re-renders.
+ */
+export function useFormState<T>({ control, name }: UseFormStateOptions<T>): FormState<T> {
+  const readKeysRef = React.useRef<Set<keyof FormState<T>>>(new Set());
+  const [, setRevision] = React.useState(0);
+
+  // Serialised so that a names array created during render doesn't resubscribe on every render
+  const namesKey = name === undefined ? undefined : JSON.stringify(typeof name === 'string' ? [name] : name);
+
+  React.useEffect(() => {
+    const names = namesKey === undefined ? undefined : (JSON.parse(namesKey) as string[]);
+
+    return control.subscribeFormState((state, prevState) => {
+      const hasChanged = Array.from(readKeysRef.current).some((key) => {
+        if (state[key] === prevState[key]) {
+          return false;
+        }
+
+        if (!names || !fieldStateKeys.includes(key)) {
+          return true;
+        }
+
+        return names.some(
+          (fieldName) => !isDeepEqual(getPath(state[key], fieldName), getPath(prevState[key], fieldName)),
+        );
+      });
+
+      if (hasChanged) {
+        setRevision((revision) => revision + 1);
+      }
+    });
+  }, [control, namesKey]);
+
+  return defineFormStateGetters({}, control.getFormState, readKeysRef.current);
+}
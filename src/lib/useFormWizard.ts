@@ -0,0 +1,190 @@
+import React from 'react';
+import { getPath, type FieldPath } from './path';
+import type { UseFormReturn } from './useForm';
+
+/**
+ * WizardStep interface is used to define a step of a wizard and the fields it contains.
+ * Steps may carry any other data, like a title, which is returned with their state.
+ */
+export interface WizardStep<T> {
+  fields: FieldPath<T>[];
+}
+
+/**
+ * WizardStepState type is used to define a step together with its progress in the wizard.
+ */
+export type WizardStepState<TStep> = TStep & {
+  index: number;
+  isCurrent: boolean;
+  isCompleted: boolean;
+  hasErrors: boolean;
+};
+
+/**
+ * UseFormWizardOptions interface is used to define the options for useFormWizard hook.
+ */
+export interface UseFormWizardOptions<T, TSubmit, TStep extends WizardStep<T>> {
+  form: UseFormReturn<T, TSubmit>;
+  steps: TStep[];
+  initialStep?: number;
+}
+
+/**
+ * UseFormWizardReturn interface is used to define the return type of useFormWizard hook.
+ */
+export interface UseFormWizardReturn<T, TSubmit, TStep> {
+  step: WizardStepState<TStep>;
+  stepIndex: number;
+  steps: WizardStepState<TStep>[];
+  isFirstStep: boolean;
+  isLastStep: boolean;
+  next: () => Promise<boolean>;
+  back: () => void;
+  goTo: (index: number) => Promise<boolean>;
+  handleSubmit: UseFormReturn<T, TSubmit>['handleSubmit'];
+}
+
+/**
+ * useFormWizard function is a custom hook that splits a form registered with useForm into steps.
+ * Moving forward validates only the fields of the steps being left, the final submit validates every value.
+ */
+export function useFormWizard<T, TSubmit = T, TStep extends WizardStep<T> = WizardStep<T>>({
+  form,
+  steps,
+  initialStep = 0,
+}: UseFormWizardOptions<T, TSubmit, TStep>): UseFormWizardReturn<T, TSubmit, TStep> {
+  const { control, trigger, clearErrors, setFocus, handleSubmit: handleFormSubmit, errors } = form;
+  const lastIndex = steps.length - 1;
+
+  const [stepIndex, setStepIndex] = React.useState(() => Math.min(Math.max(initialStep, 0), lastIndex));
+  const [completedSteps, setCompletedSteps] = React.useState<ReadonlySet<number>>(() => new Set());
+
+  const isLastStep = stepIndex >= lastIndex;
+
+  const validateStep = React.useCallback(
+    async (index: number) => {
+      const { fields } = steps[index];
+      const isValid = await trigger(fields);
+
+      setCompletedSteps((prev) => {
+        const nextSteps = new Set(prev);
+
+        if (isValid) {
+          nextSteps.add(index);
+        } else {
+          nextSteps.delete(index);
+        }
+
+        return nextSteps;
+      });
+
+      if (!isValid) {
+        const currentErrors = control.getFormState().errors;
+        const firstInvalidField = fields.find((name) => getPath(currentErrors, name) !== undefined);
+
+        if (firstInvalidField) {
+          setFocus(firstInvalidField);
+        }
+      }
+
+      return isValid;
+    },
+    [control, setFocus, steps, trigger],
+  );
+
+  // A whole-form validator also reports the steps ahead, which the user hasn't filled in yet
+  const clearErrorsFrom = React.useCallback(
+    (index: number) => {
+      const reachedFields = steps.slice(0, index).flatMap(({ fields }) => fields);
+
+      clearErrors(
+        steps
+          .slice(index)
+          .flatMap(({ fields }) => fields)
+          .filter((name) => !reachedFields.includes(name)),
+      );
+    },
+    [clearErrors, steps],
+  );
+
+  const goTo = React.useCallback(
+    async (index: number) => {
+      const targetIndex = Math.min(Math.max(index, 0), lastIndex);
+
+      // Moving forward stops at the first step that doesn't pass validation
+      for (let currentIndex = stepIndex; currentIndex < targetIndex; currentIndex++) {
+        if (!(await validateStep(currentIndex))) {
+          clearErrorsFrom(currentIndex + 1);
+          setStepIndex(currentIndex);
+          return false;
+        }
+      }
+
+      if (targetIndex > stepIndex) {
+        clearErrorsFrom(targetIndex);
+      }
+
+      setStepIndex(targetIndex);
+      return true;
+    },
+    [clearErrorsFrom, lastIndex, stepIndex, validateStep],
+  );
+
+  const next = React.useCallback(
+    () => (isLastStep ? validateStep(stepIndex) : goTo(stepIndex + 1)),
+    [goTo, isLastStep, stepIndex, validateStep],
+  );
+
+  const back = React.useCallback(() => {
+    setStepIndex((prev) => Math.max(prev - 1, 0));
+  }, []);
+
+  const handleSubmit = React.useCallback<UseFormReturn<T, TSubmit>['handleSubmit']>(
+    (onSubmit, onInvalid) => {
+      const submit = handleFormSubmit(onSubmit, (submitErrors) => {
+        // The fields of other steps aren't rendered, so show the first step holding an error
+        const invalidStep = steps.findIndex(({ fields }) =>
+          fields.some((name) => getPath(submitErrors, name) !== undefined),
+        );
+
+        if (invalidStep !== -1) {
+          setStepIndex(invalidStep);
+        }
+
+        return onInvalid?.(submitErrors);
+      });
+
+      return async (e) => {
+        // Pressing Enter in an earlier step moves on instead of submitting the whole form
+        if (!isLastStep) {
+          e.preventDefault();
+          await next();
+          return;
+        }
+
+        await submit(e);
+      };
+    },
+    [handleFormSubmit, isLastStep, next, steps],
+  );
+
+  const stepStates = steps.map((step, index) => ({
+    ...step,
+    index,
+    isCurrent: index === stepIndex,
+    isCompleted: completedSteps.has(index),
+    hasErrors: step.fields.some((name) => getPath(errors, name) !== undefined),
+  }));
+
+  return {
+    step: stepStates[stepIndex],
+    stepIndex,
+    steps: stepStates,
+    isFirstStep: stepIndex === 0,
+    isLastStep,
+    next,
+    back,
+    goTo,
+    handleSubmit,
+  };
+}
@@ -0,0 +1,60 @@
+import React from 'react';
+import { getPath, isDeepEqual, isRelatedPath, type FieldPath, type FieldPathValue } from './path';
+import type { FormControl } from './useForm';
+
+/**
+ * UseWatchOptions interface is used to define the options for useWatch hook.
+ */
+export interface UseWatchOptions<T, TName extends FieldPath<T> | readonly FieldPath<T>[] | undefined = undefined> {
+  control: FormControl<T>;
+  name?: TName;
+}
+
+/**
+ * useWatch function is a custom hook that subscribes a component to the values of the given fields.
+ * Only the component calling it re-renders when those values change, not the whole form.
+ */
+export function useWatch<T>(options: UseWatchOptions<T>): T;
+export function useWatch<T, K extends FieldPath<T>>(options: UseWatchOptions<T, K> & { name: K }): FieldPathValue<T, K>;
+export function useWatch<T, const K extends readonly FieldPath<T>[]>(
+  options: UseWatchOptions<T, K> & { name: K },
+): { -readonly [I in keyof K]: FieldPathValue<T, K[I] & string> };
+export function useWatch<T>({ control, name }: UseWatchOptions<T, FieldPath<T> | readonly FieldPath<T>[] | undefined>) {
+  // Serialised so that a names array created during render doesn't resubscribe on every render
+  const namesKey = name === undefined ? undefined : JSON.stringify(typeof name === 'string' ? [name] : name);
+  const isList = Array.isArray(name);
+
+  const select = React.useCallback(
+    (values: T): unknown => {
+      if (namesKey === undefined) {
+        return values;
+      }
+
+      const selected = (JSON.parse(namesKey) as string[]).map((fieldName) => getPath(values, fieldName));
+
+      return isList ? selected : selected[0];
+    },
+    [namesKey, isList],
+  );
+
+  const [value, setValue] = React.useState<unknown>(() => select(control.getValues()));
+
+  React.useEffect(() => {
+    const names = namesKey === undefined ? undefined : (JSON.parse(namesKey) as string[]);
+    const update = (values: T) => {
+      const nextValue = select(values);
+      setValue((prev: unknown) => (isDeepEqual(prev, nextValue) ? prev : nextValue));
+    };
+
+    // Catch up with changes made between the render and this subscription
+    update(control.getValues());
+
+    return control.subscribe((values, info) => {
+      if (!names || !info.name || names.some((fieldName) => isRelatedPath(fieldName, info.name as string))) {
+        update(values);
+      }
+    });
+  }, [control, namesKey, select]);
+
+  return value;
+}